@@ -0,0 +1,56 @@
+import { Fragment } from "react";
+import type React from "react";
+import { Link } from "react-router";
+import { slugify } from "~/lib/utils";
+import { splitAuthors } from "~/model/packages";
+import type { HighlightRange } from "~/services/search";
+import { Highlight } from "~/components/Highlight";
+
+interface AuthorLinksProps {
+  /** Author string of a package, possibly naming several people */
+  author: string;
+  /** Ranges of the author string matched by a search query */
+  highlights?: HighlightRange[];
+}
+
+/**
+ * Links each author of a package to their profile page
+ */
+export function AuthorLinks({ author, highlights }: AuthorLinksProps) {
+  const names = splitAuthors(author);
+  if (names.length === 0) {
+    return <Highlight text={author} ranges={highlights} />;
+  }
+
+  // Position of each name in the author string, to place its highlights
+  let cursor = 0;
+  const offsets = names.map((name) => {
+    const offset = author.indexOf(name, cursor);
+    cursor = offset + name.length;
+    return offset;
+  });
+
+  return (
+    <>
+      {names.map((name, i) => (
+        <Fragment key={`${name}-${i}`}>
+          {i > 0 && ", "}
+          {slugify(name) === "" ? (
+            <Highlight text={name} ranges={highlights} offset={offsets[i]} />
+          ) : (
+            <Link
+              to={`/author/${slugify(name)}`}
+              className="hover:text-foreground hover:underline"
+              // Authors are listed inside clickable package cards
+              onClick={(e: React.MouseEvent<HTMLElement>) =>
+                e.stopPropagation()
+              }
+            >
+              <Highlight text={name} ranges={highlights} offset={offsets[i]} />
+            </Link>
+          )}
+        </Fragment>
+      ))}
+    </>
+  );
+}
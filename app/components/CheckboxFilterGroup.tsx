@@ -1,19 +1,68 @@
+import clsx from "clsx";
+import { Check, Minus } from "lucide-react";
 import { useState } from "react";
-import { Checkbox } from "~/components/ui/checkbox";
 import { Button } from "~/components/ui/button";
 import { Label } from "~/components/ui/label";
+import type { TagMatchMode } from "~/services/search";
+
+/**
+ * Whether a tag is required, rejected or ignored by the filter
+ */
+export type TagFilterState = "include" | "exclude" | null;
 
 interface CheckboxFilterGroupProps {
   title: string;
-  items: Array<{ tag: string; count: number; checked: boolean }>;
-  onToggle: (tag: string) => void;
+  items: Array<{ tag: string; count: number; state: TagFilterState }>;
+  /** Called with the next state of a tag: neutral, include, exclude, neutral */
+  onChange: (tag: string, state: TagFilterState) => void;
   limit?: number;
 }
 
+const nextState = (state: TagFilterState): TagFilterState =>
+  state === null ? "include" : state === "include" ? "exclude" : null;
+
+interface TagMatchModeToggleProps {
+  mode: TagMatchMode;
+  onChange: (mode: TagMatchMode) => void;
+}
+
+/**
+ * Switches between matching any or all of the included tags
+ */
+export function TagMatchModeToggle({
+  mode,
+  onChange,
+}: TagMatchModeToggleProps) {
+  return (
+    <div
+      role="group"
+      aria-label="Match included tags"
+      className="flex rounded-md border text-xs"
+    >
+      {(["any", "all"] as const).map((value) => (
+        <button
+          key={value}
+          type="button"
+          aria-pressed={mode === value}
+          onClick={() => onChange(value)}
+          className={clsx(
+            "px-2 py-0.5 capitalize first:rounded-s-md last:rounded-e-md",
+            mode === value
+              ? "bg-primary text-primary-foreground"
+              : "text-muted-foreground hover:text-foreground",
+          )}
+        >
+          {value}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export function CheckboxFilterGroup({
   title,
   items,
-  onToggle,
+  onChange,
   limit = 15,
 }: CheckboxFilterGroupProps) {
   const [showAll, setShowAll] = useState(false);
@@ -24,16 +73,35 @@ export function CheckboxFilterGroup({
     <div className="space-y-3">
       <h3 className="font-semibold text-sm">{title}</h3>
       <div className="space-y-2 ps-5 md:ps-0">
-        {displayedItems.map(({ tag, count, checked }) => (
+        {displayedItems.map(({ tag, count, state }) => (
           <div key={tag} className="flex items-center space-x-2">
-            <Checkbox
+            {/* Tri-state checkbox: checked includes, mixed excludes */}
+            <button
+              type="button"
+              role="checkbox"
               id={`tag-${tag}`}
-              checked={checked}
-              onCheckedChange={() => onToggle(tag)}
-            />
+              aria-checked={
+                state === "include" ? true : state ? "mixed" : false
+              }
+              onClick={() => onChange(tag, nextState(state))}
+              className={clsx(
+                "size-4 shrink-0 rounded-[4px] border shadow-xs grid place-content-center outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+                state === "include" &&
+                  "bg-primary border-primary text-primary-foreground",
+                state === "exclude" &&
+                  "bg-destructive border-destructive text-white",
+                state === null && "border-input",
+              )}
+            >
+              {state === "include" && <Check className="size-3.5" />}
+              {state === "exclude" && <Minus className="size-3.5" />}
+            </button>
             <Label
               htmlFor={`tag-${tag}`}
-              className="text-sm font-normal capitalize cursor-pointer flex-1"
+              className={clsx(
+                "text-sm font-normal capitalize cursor-pointer flex-1",
+                state === "exclude" && "line-through text-muted-foreground",
+              )}
             >
               {tag} ({count})
             </Label>
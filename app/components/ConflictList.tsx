@@ -0,0 +1,68 @@
+import { TriangleAlert } from "lucide-react";
+import { Link } from "react-router";
+import type { TriggerConflict } from "~/services/conflicts";
+
+interface ConflictListProps {
+  conflicts: TriggerConflict[];
+}
+
+export function ConflictList({ conflicts }: ConflictListProps) {
+  if (conflicts.length === 0) {
+    return (
+      <div className="text-center text-muted-foreground p-8">
+        No trigger of this package is defined by other packages
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-start gap-2 text-sm">
+        <TriangleAlert className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+        <p>
+          {conflicts.length} trigger{conflicts.length !== 1 ? "s are" : " is"}{" "}
+          also defined by other packages. Installing them together makes one of
+          the expansions shadow the other.{" "}
+          <Link to="/conflicts" className="text-primary hover:underline">
+            See all conflicts
+          </Link>
+        </p>
+      </div>
+
+      <div className="border rounded overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-muted-foreground border-b">
+            <tr>
+              <th className="text-left font-semibold p-2">Trigger</th>
+              <th className="text-left font-semibold p-2">Also defined by</th>
+            </tr>
+          </thead>
+          <tbody>
+            {conflicts.map(({ trigger, packages }) => (
+              <tr key={trigger} className="border-b last:border-b-0 align-top">
+                <td className="p-2">
+                  <code className="font-mono text-xs bg-muted rounded px-1.5 py-0.5">
+                    {trigger}
+                  </code>
+                </td>
+                <td className="p-2">
+                  <div className="flex flex-wrap gap-x-3 gap-y-1">
+                    {packages.map((name) => (
+                      <Link
+                        key={name}
+                        to={`/${name}`}
+                        className="font-mono text-xs text-primary hover:underline"
+                      >
+                        {name}
+                      </Link>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
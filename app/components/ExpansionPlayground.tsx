@@ -0,0 +1,137 @@
+import { RotateCcw, Sparkles } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import type { MatchVar, PackageMatch } from "~/model/matches";
+import {
+  compileMatches,
+  isWordSeparator,
+  typeCharacter,
+  type KeystrokeResult,
+} from "~/services/expansion";
+
+const SAMPLE_TRIGGERS = 8;
+
+interface ExpansionPlaygroundProps {
+  matches: PackageMatch[];
+  globalVars: MatchVar[];
+}
+
+export function ExpansionPlayground({
+  matches,
+  globalVars,
+}: ExpansionPlaygroundProps) {
+  const compiled = useMemo(() => compileMatches(matches), [matches]);
+  const [text, setText] = useState("");
+  const [lastExpansion, setLastExpansion] =
+    useState<KeystrokeResult["expanded"]>();
+
+  // Triggers the user can click to try the package right away
+  const samples = matches
+    .flatMap((m) => m.triggers.map((trigger) => ({ trigger, match: m })))
+    .slice(0, SAMPLE_TRIGGERS);
+
+  const handleChange = (value: string) => {
+    // Like espanso, only react to characters typed at the end of the text:
+    // deletions and edits in the middle are taken as-is
+    if (value.length <= text.length || !value.startsWith(text)) {
+      setText(value);
+      return;
+    }
+
+    let next = text;
+    for (const char of value.slice(text.length)) {
+      const result = typeCharacter(next, char, compiled, globalVars);
+      next = result.text;
+      if (result.expanded) {
+        setLastExpansion(result.expanded);
+      }
+    }
+    setText(next);
+  };
+
+  const typeTrigger = (trigger: string, m: PackageMatch) => {
+    // Word triggers need a boundary on both sides to fire
+    const prefix =
+      m.word && text !== "" && !isWordSeparator(text[text.length - 1])
+        ? " "
+        : "";
+    handleChange(text + prefix + trigger + (m.word ? " " : ""));
+  };
+
+  if (compiled.length === 0) {
+    return (
+      <div className="text-center text-muted-foreground p-8">
+        This package has no triggers to try
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-muted-foreground">
+        Type in the box below to see this package's matches expand as they would
+        with espanso. Shell, script and clipboard variables are never executed:
+        they are shown as placeholders.
+      </p>
+
+      {samples.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Try:</span>
+          {samples.map(({ trigger, match: m }) => (
+            <Badge
+              key={`${m.id}-${trigger}`}
+              variant="secondary"
+              className="font-mono cursor-pointer hover:bg-secondary/80"
+              onClick={() => typeTrigger(trigger, m)}
+            >
+              {trigger}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={text}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+          handleChange(e.target.value)
+        }
+        placeholder="Start typing a trigger..."
+        rows={8}
+        spellCheck={false}
+        className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 w-full rounded-md border bg-transparent px-3 py-2 text-sm font-mono shadow-xs outline-none focus-visible:ring-[3px]"
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground flex items-center gap-1 min-h-5">
+          {lastExpansion && (
+            <>
+              <Sparkles className="h-3 w-3" />
+              Expanded
+              <code className="font-mono bg-muted rounded px-1 py-0.5 text-foreground">
+                {lastExpansion.trigger}
+              </code>
+              {lastExpansion.match.word && (
+                <Badge variant="outline">word</Badge>
+              )}
+              {lastExpansion.match.regex && (
+                <Badge variant="outline">regex</Badge>
+              )}
+            </>
+          )}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setText("");
+            setLastExpansion(undefined);
+          }}
+        >
+          <RotateCcw className="h-3 w-3 mr-2" />
+          Reset
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useState } from "react";
+import { Badge } from "~/components/ui/badge";
+import { cn } from "~/lib/utils";
+import type { FileDiff } from "~/services/diff";
+
+interface FileDiffViewProps {
+  diff: FileDiff;
+  defaultOpen?: boolean;
+}
+
+const statusVariant = {
+  added: "default",
+  removed: "destructive",
+  modified: "secondary",
+  unchanged: "outline",
+} as const;
+
+export function FileDiffView({ diff, defaultOpen = true }: FileDiffViewProps) {
+  const [open, setOpen] = useState(defaultOpen && diff.hunks.length > 0);
+  const Chevron = open ? ChevronDown : ChevronRight;
+
+  return (
+    <div className="border rounded">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between gap-2 p-2 bg-slate-50 hover:bg-slate-100 text-left"
+        onClick={() => setOpen(!open)}
+        disabled={diff.hunks.length === 0}
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          {diff.hunks.length > 0 && <Chevron className="h-4 w-4 shrink-0" />}
+          <span className="font-mono text-xs truncate">{diff.file}</span>
+          <Badge variant={statusVariant[diff.status]}>{diff.status}</Badge>
+        </span>
+        <span className="font-mono text-xs whitespace-nowrap">
+          <span className="text-green-700">+{diff.additions}</span>{" "}
+          <span className="text-red-700">-{diff.deletions}</span>
+        </span>
+      </button>
+
+      {open && (
+        <div className="overflow-x-auto border-t">
+          <table className="w-full font-mono text-xs">
+            <tbody>
+              {diff.hunks.map((hunk) => (
+                <HunkRows
+                  key={`${hunk.oldStart}-${hunk.newStart}`}
+                  hunk={hunk}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HunkRows({ hunk }: { hunk: FileDiff["hunks"][number] }) {
+  return (
+    <>
+      <tr className="bg-blue-50 text-muted-foreground">
+        <td colSpan={3} className="px-2 py-1">
+          @@ -{hunk.oldStart} +{hunk.newStart} @@
+        </td>
+      </tr>
+      {hunk.lines.map((line, i) => (
+        <tr
+          key={i}
+          className={cn(
+            line.type === "added" && "bg-green-50",
+            line.type === "removed" && "bg-red-50",
+          )}
+        >
+          <td className="w-10 px-2 text-right text-muted-foreground select-none">
+            {line.oldNumber}
+          </td>
+          <td className="w-10 px-2 text-right text-muted-foreground select-none">
+            {line.newNumber}
+          </td>
+          <td className="px-2 whitespace-pre">
+            {line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+            {line.text}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
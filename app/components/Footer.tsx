@@ -5,6 +5,8 @@ type FooterLink = {
   label: string;
   href: string;
   external?: boolean;
+  // Files served as is rather than pages of the app (e.g. feeds)
+  document?: boolean;
 };
 
 const links: FooterLink[] = [
@@ -22,6 +24,15 @@ const links: FooterLink[] = [
     href: "/search",
     label: "Explore",
   },
+  {
+    href: "/conflicts",
+    label: "Conflicts",
+  },
+  {
+    href: "/feeds/packages.atom",
+    label: "Feed",
+    document: true,
+  },
   {
     href: "https://github.com/espanso/hub-frontend/",
     label: "Contribute",
@@ -72,6 +83,7 @@ export function Footer({ showAuthor = false }: FooterProps) {
               <Link
                 key={l.href}
                 to={l.href}
+                reloadDocument={l.document}
                 className="text-sm font-medium text-primary-foreground/90 hover:text-primary-foreground transition-colors"
               >
                 {l.label}
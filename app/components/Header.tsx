@@ -93,6 +93,12 @@ export function Header({
             >
               Explore
             </Link>
+            <Link
+              to="/tags"
+              className="text-sm font-medium text-primary-foreground/90 hover:text-primary-foreground transition-colors"
+            >
+              Tags
+            </Link>
           </nav>
 
           {/* Mobile Menu - TODO: Add hamburger menu */}
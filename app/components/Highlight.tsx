@@ -0,0 +1,56 @@
+import type React from "react";
+import type { HighlightRange } from "~/services/search";
+
+interface HighlightProps {
+  text: string;
+  /** Ranges to highlight, as [first, last] character indices (inclusive) */
+  ranges?: HighlightRange[];
+  /** Index of the first character of text, when it is part of a longer string */
+  offset?: number;
+}
+
+/**
+ * Renders text with the ranges matched by a search query marked
+ */
+export function Highlight({ text, ranges = [], offset = 0 }: HighlightProps) {
+  // Shift ranges to the text, drop the ones outside of it and merge overlaps
+  const merged = ranges
+    .map(
+      ([start, end]): HighlightRange => [
+        Math.max(0, start - offset),
+        Math.min(text.length - 1, end - offset),
+      ],
+    )
+    .filter(([start, end]) => start <= end)
+    .sort((a, b) => a[0] - b[0])
+    .reduce<HighlightRange[]>((acc, [start, end]) => {
+      const last = acc[acc.length - 1];
+      if (last && start <= last[1] + 1) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        acc.push([start, end]);
+      }
+      return acc;
+    }, []);
+
+  if (merged.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  merged.forEach(([start, end]) => {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={start} className="bg-yellow-200/80 text-inherit rounded-[2px]">
+        {text.slice(start, end + 1)}
+      </mark>,
+    );
+    cursor = end + 1;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
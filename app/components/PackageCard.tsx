@@ -2,18 +2,29 @@ import { useNavigate } from "react-router";
 import type React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
-import type { Package } from "~/model/packages";
+import type { PackageSummary } from "~/model/packages";
 import { isFeatured } from "~/model/packages";
+import { QualityBadge } from "~/components/QualityBreakdown";
+import { AuthorLinks } from "~/components/AuthorLinks";
+import { Highlight } from "~/components/Highlight";
+import type { Highlights } from "~/services/search";
 
 interface PackageCardProps {
-  package: Package;
+  package: PackageSummary;
   showFeaturedBadge?: boolean;
+  matchedTrigger?: string;
+  /** Ranges of each field matched by the search query */
+  highlights?: Highlights;
+  qualityScore?: number;
   onTagClick: (tag: string) => void;
 }
 
 export function PackageCard({
   package: pkg,
   showFeaturedBadge = true,
+  matchedTrigger,
+  highlights = {},
+  qualityScore,
   onTagClick,
 }: PackageCardProps) {
   const navigate = useNavigate();
@@ -30,24 +41,37 @@ export function PackageCard({
         <div className="flex items-start justify-between gap-2">
           <CardTitle className="text-base leading-tight">
             <div className="flex items-center gap-2">
-              {pkg.title}
+              <Highlight text={pkg.title} ranges={highlights.title} />
               {isFeatured(pkg) && showFeaturedBadge && (
                 <Badge className="px-2 py-0.5 text-[10px]">Featured</Badge>
               )}
             </div>
           </CardTitle>
           <div className="flex items-center gap-2">
+            {qualityScore !== undefined && (
+              <QualityBadge score={qualityScore} />
+            )}
             <span className="text-[11px] text-muted-foreground whitespace-nowrap font-mono">
-              {pkg.name}
+              <Highlight text={pkg.name} ranges={highlights.name} />
             </span>
           </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-2">
         <p className="text-xs text-muted-foreground line-clamp-2">
-          {pkg.description}
+          <Highlight text={pkg.description} ranges={highlights.description} />
         </p>
-        <p className="text-[11px] text-muted-foreground">By {pkg.author}</p>
+        <p className="text-[11px] text-muted-foreground">
+          By <AuthorLinks author={pkg.author} highlights={highlights.author} />
+        </p>
+        {matchedTrigger && (
+          <p className="text-[11px] text-muted-foreground">
+            Matched trigger{" "}
+            <code className="font-mono bg-muted rounded px-1 py-0.5 text-foreground">
+              <Highlight text={matchedTrigger} ranges={highlights.trigger} />
+            </code>
+          </p>
+        )}
         <div className="flex flex-wrap gap-1">
           {pkg.tags.map((tag, i) => (
             <Badge
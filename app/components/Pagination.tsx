@@ -0,0 +1,82 @@
+import clsx from "clsx";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Link } from "react-router";
+import { Button } from "~/components/ui/button";
+
+interface PaginationProps {
+  /** Current page, starting from 1 */
+  page: number;
+  pageCount: number;
+  /** Builds the link to a page */
+  pageHref: (page: number) => string;
+}
+
+/**
+ * Lists the pages to link: the first, the last and the neighbours of the
+ * current one, with null marking a gap
+ */
+function visiblePages(page: number, pageCount: number): (number | null)[] {
+  const pages = Array.from({ length: pageCount }, (_, i) => i + 1).filter(
+    (p) => p === 1 || p === pageCount || Math.abs(p - page) <= 1,
+  );
+  return pages.flatMap((p, i) =>
+    i > 0 && p - pages[i - 1] > 1 ? [null, p] : [p],
+  );
+}
+
+export function Pagination({ page, pageCount, pageHref }: PaginationProps) {
+  if (pageCount <= 1) {
+    return null;
+  }
+
+  return (
+    <nav
+      aria-label="Pagination"
+      className="flex flex-wrap items-center justify-center gap-1"
+    >
+      <Button variant="ghost" size="sm" asChild>
+        <Link
+          to={pageHref(Math.max(1, page - 1))}
+          aria-disabled={page <= 1}
+          className={clsx(page <= 1 && "pointer-events-none opacity-50")}
+        >
+          <ChevronLeft />
+          Previous
+        </Link>
+      </Button>
+      {visiblePages(page, pageCount).map((p, i) =>
+        p === null ? (
+          <span key={`gap-${i}`} className="px-2 text-muted-foreground">
+            …
+          </span>
+        ) : (
+          <Button
+            key={p}
+            variant={p === page ? "outline" : "ghost"}
+            size="sm"
+            asChild
+          >
+            <Link
+              to={pageHref(p)}
+              aria-current={p === page ? "page" : undefined}
+            >
+              {p}
+            </Link>
+          </Button>
+        ),
+      )}
+      <Button variant="ghost" size="sm" asChild>
+        <Link
+          to={pageHref(Math.min(pageCount, page + 1))}
+          aria-disabled={page >= pageCount}
+          className={clsx(
+            page >= pageCount && "pointer-events-none opacity-50",
+          )}
+        >
+          Next
+          <ChevronRight />
+        </Link>
+      </Button>
+    </nav>
+  );
+}
@@ -0,0 +1,54 @@
+import { CircleCheck, CircleX } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import type { QualityReport } from "~/services/quality";
+
+interface QualityBreakdownProps {
+  quality: QualityReport;
+}
+
+export function QualityBreakdown({ quality }: QualityBreakdownProps) {
+  const passedCount = quality.checks.filter((check) => check.passed).length;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2 text-sm">
+        <QualityBadge score={quality.score} />
+        <p className="text-muted-foreground">
+          {passedCount} of {quality.checks.length} checks passed
+        </p>
+      </div>
+
+      <ul className="divide-y border rounded">
+        {quality.checks.map((check) => (
+          <li key={check.id} className="flex items-start gap-3 p-3 text-sm">
+            {check.passed ? (
+              <CircleCheck className="h-4 w-4 mt-0.5 shrink-0 text-green-700" />
+            ) : (
+              <CircleX className="h-4 w-4 mt-0.5 shrink-0 text-red-700" />
+            )}
+            <div className="min-w-0">
+              <p className="font-medium">{check.label}</p>
+              <p className="text-muted-foreground break-words">
+                {check.detail}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Compact quality score, colored from poor to good
+ */
+export function QualityBadge({ score }: { score: number }) {
+  return (
+    <Badge
+      variant={score >= 75 ? "default" : score >= 50 ? "secondary" : "outline"}
+      title="Quality score"
+    >
+      Quality {score}
+    </Badge>
+  );
+}
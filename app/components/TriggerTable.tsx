@@ -0,0 +1,253 @@
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from "lucide-react";
+import { useState } from "react";
+import { Badge } from "~/components/ui/badge";
+import { Input } from "~/components/ui/input";
+import {
+  primaryTrigger,
+  type MatchFileError,
+  type PackageMatch,
+  type SkippedMatches,
+} from "~/model/matches";
+
+type SortKey = "trigger" | "expansion" | "file";
+type SortDirection = "asc" | "desc";
+
+interface TriggerTableProps {
+  matches: PackageMatch[];
+  /** Match files that could not be parsed */
+  errors?: MatchFileError[];
+  /** Matches left out of the other files */
+  skipped?: SkippedMatches[];
+}
+
+const sortValue = (m: PackageMatch, key: SortKey): string => {
+  switch (key) {
+    case "trigger":
+      return primaryTrigger(m);
+    case "expansion":
+      return m.expansion;
+    case "file":
+      return m.file;
+  }
+};
+
+const matchesFilter = (m: PackageMatch, filter: string): boolean => {
+  const lowerFilter = filter.toLowerCase();
+  return [...m.triggers, m.regex ?? "", m.expansion, m.label ?? ""].some(
+    (field) => field.toLowerCase().includes(lowerFilter),
+  );
+};
+
+interface SortableHeaderProps {
+  column: SortKey;
+  label: string;
+  sortKey: SortKey;
+  sortDirection: SortDirection;
+  onSort: (column: SortKey) => void;
+}
+
+function SortableHeader({
+  column,
+  label,
+  sortKey,
+  sortDirection,
+  onSort,
+}: SortableHeaderProps) {
+  const Icon =
+    column !== sortKey
+      ? ArrowUpDown
+      : sortDirection === "asc"
+        ? ArrowUp
+        : ArrowDown;
+
+  return (
+    <th className="text-left font-semibold p-2">
+      <button
+        type="button"
+        className="flex items-center gap-1 hover:text-foreground"
+        onClick={() => onSort(column)}
+      >
+        {label}
+        <Icon className={`h-3 w-3 ${column !== sortKey ? "opacity-50" : ""}`} />
+      </button>
+    </th>
+  );
+}
+
+/**
+ * Explains why some matches of the package are missing from the table
+ */
+function ParseProblems({
+  errors,
+  skipped,
+}: Required<Pick<TriggerTableProps, "errors" | "skipped">>) {
+  if (errors.length === 0 && skipped.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="text-sm text-destructive">
+      {errors.map(({ file, message }) => (
+        <li key={file}>
+          <code className="font-mono text-xs">{file}</code> could not be parsed:{" "}
+          {message}
+        </li>
+      ))}
+      {skipped.map(({ file, count }) => (
+        <li key={file}>
+          {count} match{count !== 1 ? "es" : ""} in{" "}
+          <code className="font-mono text-xs">{file}</code> could not be parsed
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function TriggerTable({
+  matches,
+  errors = [],
+  skipped = [],
+}: TriggerTableProps) {
+  const [filter, setFilter] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("trigger");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+
+  const visibleMatches = matches
+    .filter((m) => filter.trim() === "" || matchesFilter(m, filter.trim()))
+    .sort((a, b) => {
+      const result = sortValue(a, sortKey).localeCompare(
+        sortValue(b, sortKey),
+        undefined,
+        { numeric: true, sensitivity: "base" },
+      );
+      return sortDirection === "asc" ? result : -result;
+    });
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setSortDirection("asc");
+    }
+  };
+
+  if (matches.length === 0) {
+    return (
+      <div className="flex flex-col gap-4">
+        <ParseProblems errors={errors} skipped={skipped} />
+        <div className="text-center text-muted-foreground p-8">
+          No triggers found in this package
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <ParseProblems errors={errors} skipped={skipped} />
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+        <Input
+          type="text"
+          placeholder="Filter triggers"
+          value={filter}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFilter(e.target.value)
+          }
+          className="pl-10"
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {visibleMatches.length} of {matches.length} match
+        {matches.length !== 1 ? "es" : ""}
+      </p>
+
+      {visibleMatches.length > 0 ? (
+        <div className="border rounded overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-muted-foreground border-b">
+              <tr>
+                <SortableHeader
+                  column="trigger"
+                  label="Trigger"
+                  sortKey={sortKey}
+                  sortDirection={sortDirection}
+                  onSort={toggleSort}
+                />
+                <SortableHeader
+                  column="expansion"
+                  label="Expansion"
+                  sortKey={sortKey}
+                  sortDirection={sortDirection}
+                  onSort={toggleSort}
+                />
+                <SortableHeader
+                  column="file"
+                  label="File"
+                  sortKey={sortKey}
+                  sortDirection={sortDirection}
+                  onSort={toggleSort}
+                />
+              </tr>
+            </thead>
+            <tbody>
+              {visibleMatches.map((m) => (
+                <tr key={m.id} className="border-b last:border-b-0 align-top">
+                  <td className="p-2">
+                    <div className="flex flex-col gap-1">
+                      {m.triggers.map((trigger) => (
+                        <code
+                          key={trigger}
+                          className="font-mono text-xs bg-muted rounded px-1.5 py-0.5 w-fit"
+                        >
+                          {trigger}
+                        </code>
+                      ))}
+                      {m.regex && (
+                        <code className="font-mono text-xs bg-muted rounded px-1.5 py-0.5 w-fit break-all">
+                          /{m.regex}/
+                        </code>
+                      )}
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    <div className="flex flex-col gap-1">
+                      <pre className="font-sans text-sm whitespace-pre-wrap break-words line-clamp-4">
+                        {m.expansion}
+                      </pre>
+                      <div className="flex flex-wrap gap-1">
+                        {m.expansionType !== "replace" && (
+                          <Badge variant="outline">{m.expansionType}</Badge>
+                        )}
+                        {m.regex && <Badge variant="outline">regex</Badge>}
+                        {m.word && <Badge variant="outline">word</Badge>}
+                        {m.propagateCase && (
+                          <Badge variant="outline">propagate case</Badge>
+                        )}
+                        {m.vars.map((matchVar) => (
+                          <Badge key={matchVar.name} variant="secondary">
+                            {matchVar.name}: {matchVar.type}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="p-2 font-mono text-xs text-muted-foreground whitespace-nowrap">
+                    {m.file}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center text-muted-foreground p-8">
+          No triggers match "{filter}"
+        </div>
+      )}
+    </div>
+  );
+}
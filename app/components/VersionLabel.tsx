@@ -0,0 +1,18 @@
+import { Badge } from "~/components/ui/badge";
+import { isPrerelease } from "~/lib/semver";
+
+interface VersionLabelProps {
+  version: string;
+}
+
+/**
+ * Displays a version number, flagging pre-releases
+ */
+export function VersionLabel({ version }: VersionLabelProps) {
+  return (
+    <span className="flex items-center gap-2">
+      v{version}
+      {isPrerelease(version) && <Badge variant="outline">pre-release</Badge>}
+    </span>
+  );
+}
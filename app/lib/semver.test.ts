@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareVersions,
+  isPrerelease,
+  SEMVER_REGEX,
+  selectLatestVersion,
+} from "./semver";
+
+describe("SEMVER_REGEX", () => {
+  it.each(["0.0.0", "1.2.3", "1.0.0-alpha.1", "1.0.0-0.3.7", "1.0.0+20130313"])(
+    "accepts %s",
+    (version) => {
+      expect(SEMVER_REGEX.test(version)).toBe(true);
+    },
+  );
+
+  it.each(["1.2", "01.2.3", "1.2.3-", "1.2.3-01", "v1.2.3", "1.2.3+"])(
+    "rejects %s",
+    (version) => {
+      expect(SEMVER_REGEX.test(version)).toBe(false);
+    },
+  );
+});
+
+describe("isPrerelease", () => {
+  it("tells pre-releases from releases", () => {
+    expect(isPrerelease("2.0.0-rc.1")).toBe(true);
+    expect(isPrerelease("2.0.0")).toBe(false);
+    expect(isPrerelease("2.0.0+build.1")).toBe(false);
+  });
+});
+
+describe("compareVersions", () => {
+  it("orders versions by semver precedence", () => {
+    // Example of https://semver.org/#spec-item-11
+    const ordered = [
+      "1.0.0-alpha",
+      "1.0.0-alpha.1",
+      "1.0.0-alpha.beta",
+      "1.0.0-beta",
+      "1.0.0-beta.2",
+      "1.0.0-beta.11",
+      "1.0.0-rc.1",
+      "1.0.0",
+      "1.0.1",
+      "1.1.0",
+      "1.10.0",
+      "2.0.0",
+    ];
+
+    expect([...ordered].reverse().sort(compareVersions)).toEqual(ordered);
+  });
+
+  it("compares numbers numerically", () => {
+    expect(compareVersions("0.10.0", "0.9.0")).toBeGreaterThan(0);
+    expect(compareVersions("1.0.0-rc.10", "1.0.0-rc.9")).toBeGreaterThan(0);
+  });
+
+  it("only uses build metadata to break ties", () => {
+    expect(compareVersions("1.0.0+b", "1.0.0+a")).toBeGreaterThan(0);
+    expect(compareVersions("1.0.0+b", "1.0.1+a")).toBeLessThan(0);
+    expect(compareVersions("1.0.0", "1.0.0")).toBe(0);
+  });
+});
+
+describe("selectLatestVersion", () => {
+  const versions = (...list: string[]) => list.map((version) => ({ version }));
+
+  it("picks the highest stable release", () => {
+    expect(
+      selectLatestVersion(versions("1.9.0", "1.10.0", "2.0.0-beta.1")),
+    ).toEqual({ version: "1.10.0" });
+  });
+
+  it("picks the highest pre-release without stable releases", () => {
+    expect(
+      selectLatestVersion(versions("1.0.0-beta.2", "1.0.0-beta.11")),
+    ).toEqual({ version: "1.0.0-beta.11" });
+  });
+
+  it("has no latest version of nothing", () => {
+    expect(selectLatestVersion([])).toBeUndefined();
+  });
+});
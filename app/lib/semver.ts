@@ -0,0 +1,102 @@
+// Semantic version as specified by https://semver.org (e.g. "1.2.0-beta.1+build.5")
+export const SEMVER_REGEX =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+  build: string;
+};
+
+function parseSemver(version: string): SemVer {
+  const [, major, minor, patch, prerelease, build] =
+    version.match(SEMVER_REGEX) ?? [];
+  return {
+    major: Number(major) || 0,
+    minor: Number(minor) || 0,
+    patch: Number(patch) || 0,
+    prerelease: prerelease ? prerelease.split(".") : [],
+    build: build ?? "",
+  };
+}
+
+/**
+ * Tells whether a version is a pre-release (e.g. "2.0.0-rc.1")
+ */
+export function isPrerelease(version: string): boolean {
+  return parseSemver(version).prerelease.length > 0;
+}
+
+const isNumeric = (identifier: string) => /^\d+$/.test(identifier);
+
+/**
+ * Compares two pre-release identifiers: numeric ones numerically and before
+ * alphanumeric ones, which are compared in ASCII order
+ */
+function compareIdentifiers(a: string, b: string): number {
+  if (isNumeric(a) && isNumeric(b)) {
+    return Number(a) - Number(b);
+  }
+  if (isNumeric(a) !== isNumeric(b)) {
+    return isNumeric(a) ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Orders versions by semver precedence, for use with Array.prototype.sort.
+ * Pre-releases come before their release (1.0.0-beta < 1.0.0). Build metadata
+ * does not take part in precedence, it only breaks ties to keep the order stable.
+ * @returns A negative number if a comes before b, positive if after, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseSemver(a);
+  const vb = parseSemver(b);
+
+  const core =
+    va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+  if (core !== 0) {
+    return core;
+  }
+
+  // A release has higher precedence than its pre-releases
+  if (va.prerelease.length === 0 || vb.prerelease.length === 0) {
+    const pre = vb.prerelease.length - va.prerelease.length;
+    if (pre !== 0) {
+      return pre;
+    }
+  }
+
+  for (
+    let i = 0;
+    i < Math.max(va.prerelease.length, vb.prerelease.length);
+    i++
+  ) {
+    // A shorter set of identifiers has lower precedence
+    if (i >= va.prerelease.length) return -1;
+    if (i >= vb.prerelease.length) return 1;
+    const identifier = compareIdentifiers(va.prerelease[i], vb.prerelease[i]);
+    if (identifier !== 0) {
+      return identifier;
+    }
+  }
+
+  return va.build < vb.build ? -1 : va.build > vb.build ? 1 : 0;
+}
+
+/**
+ * Picks the latest of some package versions: the highest stable release, or
+ * the highest pre-release when there is no stable release
+ */
+export function selectLatestVersion<T extends { version: string }>(
+  packages: T[],
+): T | undefined {
+  const stable = packages.filter((p) => !isPrerelease(p.version));
+  return (stable.length > 0 ? stable : packages).reduce<T | undefined>(
+    (latest, p) =>
+      !latest || compareVersions(p.version, latest.version) > 0 ? p : latest,
+    undefined,
+  );
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { slugify, tagPath } from "./utils";
+
+describe("slugify", () => {
+  it("keeps lowercase ASCII letters and digits", () => {
+    expect(slugify("  Math Symbols & Émojis 2 ")).toBe("math-symbols-emojis-2");
+  });
+
+  it("gives an empty slug without Latin letters or digits", () => {
+    expect(slugify("日本語")).toBe("");
+  });
+});
+
+describe("tagPath", () => {
+  it("links to the tag page", () => {
+    expect(tagPath("Math symbols")).toBe("/tag/math-symbols");
+  });
+
+  it("searches the tags without a page", () => {
+    expect(tagPath("日本語")).toBe(`/search?t=${encodeURIComponent("日本語")}`);
+  });
+});
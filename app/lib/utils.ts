@@ -4,3 +4,35 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Turns a free-form label (tag, author name) into a URL-safe slug
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Gets the page of a tag. Tags without a slug (e.g. in non-Latin scripts)
+ * have no page, like in the tag directory: their packages are searched instead.
+ */
+export function tagPath(tag: string): string {
+  const slug = slugify(tag);
+  return slug === ""
+    ? `/search?${new URLSearchParams({ t: tag })}`
+    : `/tag/${slug}`;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
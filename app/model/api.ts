@@ -0,0 +1,73 @@
+import * as v from "valibot";
+import { RawPackageSchema } from "./packages";
+
+/**
+ * Static JSON API generated at build time, for tools consuming the hub data:
+ *
+ * - /api/packages.json: latest version of every package (ApiPackageListSchema)
+ * - /api/packages/<name>.json: every version of a package (ApiPackageDetailSchema)
+ * - /api/tags.json: tags with their package count (ApiTagListSchema)
+ *
+ * Every document carries the apiVersion it conforms to. Fields may be added
+ * within a version, while removing or changing one bumps API_VERSION.
+ */
+export const API_VERSION = 1;
+
+const ApiDocumentEntries = {
+  apiVersion: v.literal(API_VERSION),
+  // ISO date of the build that generated the document
+  generatedAt: v.pipe(v.string(), v.isoTimestamp()),
+};
+
+// A package version as listed in the package index
+export const ApiPackageSchema = v.omit(RawPackageSchema, [
+  "files",
+  "repositoryHome",
+]);
+
+export type ApiPackage = v.InferOutput<typeof ApiPackageSchema>;
+
+export const ApiPackageListSchema = v.object({
+  ...ApiDocumentEntries,
+  packages: v.array(ApiPackageSchema),
+});
+
+export type ApiPackageList = v.InferOutput<typeof ApiPackageListSchema>;
+
+// What a package version expands, from its match files
+export const ApiTriggerSummarySchema = v.object({
+  matchCount: v.number(),
+  regexCount: v.number(),
+  // Unique literal triggers, in match file order
+  triggers: v.array(v.string()),
+});
+
+export const ApiPackageVersionSchema = v.object({
+  ...ApiPackageSchema.entries,
+  // Paths of the files in the package archive
+  files: v.array(v.string()),
+  triggerSummary: ApiTriggerSummarySchema,
+});
+
+export type ApiPackageVersion = v.InferOutput<typeof ApiPackageVersionSchema>;
+
+export const ApiPackageDetailSchema = v.object({
+  ...ApiDocumentEntries,
+  name: v.string(),
+  // Latest stable version, or latest pre-release without stable versions
+  latestVersion: v.string(),
+  // Tags of the latest version
+  tags: v.array(v.string()),
+  // Most recent first
+  versions: v.array(ApiPackageVersionSchema),
+});
+
+export type ApiPackageDetail = v.InferOutput<typeof ApiPackageDetailSchema>;
+
+export const ApiTagListSchema = v.object({
+  ...ApiDocumentEntries,
+  // Lowercase tags, most used first
+  tags: v.array(v.object({ tag: v.string(), count: v.number() })),
+});
+
+export type ApiTagList = v.InferOutput<typeof ApiTagListSchema>;
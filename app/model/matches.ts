@@ -0,0 +1,85 @@
+import * as v from "valibot";
+
+// Scalar YAML values (e.g. `replace: 42`) are coerced to strings
+const ScalarSchema = v.pipe(
+  v.union([v.string(), v.number(), v.boolean()]),
+  v.transform((value) => String(value)),
+);
+
+// Variable schema - shared by match `vars` and file-level `global_vars`
+export const MatchVarSchema = v.object({
+  name: v.string(),
+  type: v.string(),
+  params: v.optional(v.record(v.string(), v.unknown())),
+});
+
+export type MatchVar = v.InferOutput<typeof MatchVarSchema>;
+
+// Raw match schema, as written in an espanso match file
+export const RawMatchSchema = v.object({
+  trigger: v.optional(ScalarSchema),
+  triggers: v.optional(v.array(ScalarSchema)),
+  regex: v.optional(v.string()),
+  replace: v.optional(ScalarSchema),
+  markdown: v.optional(ScalarSchema),
+  html: v.optional(ScalarSchema),
+  image_path: v.optional(v.string()),
+  form: v.optional(ScalarSchema),
+  vars: v.optional(v.array(MatchVarSchema)),
+  word: v.optional(v.boolean()),
+  propagate_case: v.optional(v.boolean()),
+  label: v.optional(v.string()),
+});
+
+export type RawMatch = v.InferOutput<typeof RawMatchSchema>;
+
+// Match file schema - entries are validated one by one so that a single
+// broken match does not hide the rest of the file
+export const MatchFileSchema = v.object({
+  matches: v.optional(v.array(v.unknown()), []),
+  global_vars: v.optional(v.array(v.unknown()), []),
+});
+
+export type MatchFile = v.InferOutput<typeof MatchFileSchema>;
+
+export type ExpansionType = "replace" | "markdown" | "html" | "image" | "form";
+
+// Normalized match, ready to be displayed or searched
+export type PackageMatch = {
+  id: string;
+  file: string;
+  triggers: string[];
+  regex?: string;
+  expansionType: ExpansionType;
+  expansion: string;
+  vars: MatchVar[];
+  word: boolean;
+  propagateCase: boolean;
+  label?: string;
+};
+
+export type MatchFileError = {
+  file: string;
+  message: string;
+};
+
+// Matches of a file left out because they are invalid or incomplete
+export type SkippedMatches = {
+  file: string;
+  count: number;
+};
+
+export type PackageMatches = {
+  matches: PackageMatch[];
+  globalVars: MatchVar[];
+  /** Files that could not be parsed at all */
+  errors: MatchFileError[];
+  skipped: SkippedMatches[];
+};
+
+/**
+ * Returns the text used to identify a match: its first trigger, or its regex
+ */
+export function primaryTrigger(m: PackageMatch): string {
+  return m.triggers[0] ?? m.regex ?? "";
+}
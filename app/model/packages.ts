@@ -1,9 +1,13 @@
 import * as v from "valibot";
+import { SEMVER_REGEX } from "../lib/semver";
 
-// Package version schema - validates semver format
+// Package version schema - validates semver format, pre-releases and build metadata included
 export const PackageVersionSchema = v.pipe(
   v.string(),
-  v.regex(/^\d+\.\d+\.\d+$/, 'Must be valid semver (e.g., "1.0.0")'),
+  v.regex(
+    SEMVER_REGEX,
+    'Must be valid semver (e.g., "1.0.0" or "1.2.0-beta.1")',
+  ),
 );
 
 export type PackageVersion = v.InferOutput<typeof PackageVersionSchema>;
@@ -35,6 +39,14 @@ export const PackageSchema = v.pipe(
 
 export type Package = v.InferOutput<typeof PackageSchema>;
 
+/**
+ * Fields of a package shown on package cards and searched on /search
+ */
+export type PackageSummary = Pick<
+  Package,
+  "id" | "name" | "version" | "title" | "description" | "author" | "tags"
+>;
+
 // Packages index schema
 export const PackagesIndexSchema = v.object({
   last_update: v.number(),
@@ -43,6 +55,26 @@ export const PackagesIndexSchema = v.object({
 
 export type PackagesIndex = v.InferOutput<typeof PackagesIndexSchema>;
 
+// Packages index schema with unvalidated entries, validated one by one so that
+// a malformed entry only rejects that package
+export const PackagesIndexEnvelopeSchema = v.object({
+  last_update: v.number(),
+  packages: v.array(v.unknown()),
+});
+
+// An index entry dropped because it failed validation
+export type RejectedPackage = {
+  /** Position of the entry in the index, absent when the source rejected it */
+  position?: number;
+  name?: string;
+  version?: string;
+  issues: Array<{
+    /** Dot path of the failing field, e.g. "tags.0" */
+    field: string;
+    message: string;
+  }>;
+};
+
 export const featuredPackages: string[] = [
   "all-emojis",
   "html-utils-package",
@@ -55,6 +87,17 @@ export const featuredPackages: string[] = [
   "espanso-dice",
 ];
 
-export function isFeatured(p: Package): boolean {
+export function isFeatured(p: PackageSummary): boolean {
   return featuredPackages.includes(p.name);
 }
+
+/**
+ * Splits an author string naming several people (e.g. "Alice, Bob" or
+ * "Alice & Bob") into individual author names
+ */
+export function splitAuthors(author: string): string[] {
+  return author
+    .split(/\s*(?:[,;&]|\s+and\s+)\s*/i)
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,50 @@
+import type { PackageSummary } from "./packages";
+import type {
+  SearchOptions,
+  SearchResult,
+  SerializedSearchIndex,
+} from "../services/search";
+
+/**
+ * Latest version of a package as searched on /search, with its triggers
+ */
+export type SearchDocument = PackageSummary & {
+  triggers: string[];
+};
+
+/**
+ * Everything the search page needs, generated at build time and served as
+ * /search-index.json
+ */
+export type SearchIndex = {
+  generatedAt: string;
+  packages: SearchDocument[];
+  /** Fuse index of packages, in the same order */
+  fuseIndex: SerializedSearchIndex;
+  /** Quality scores, by package name */
+  scores: Record<string, number>;
+  /** When the latest version was first published (ISO date), by package name */
+  updatedAt: Record<string, string>;
+  /** Number of versions, by package name */
+  versionCounts: Record<string, number>;
+};
+
+/**
+ * Messages sent to the search worker: the index to search first, then
+ * searches, which can be cancelled while they wait to be run
+ */
+export type SearchWorkerRequest =
+  | {
+      type: "load";
+      packages: SearchDocument[];
+      fuseIndex: SerializedSearchIndex;
+    }
+  | { type: "search"; id: number; options: SearchOptions }
+  | { type: "cancel"; id: number };
+
+/**
+ * Messages sent back by the search worker, for the search with the given id
+ */
+export type SearchWorkerResponse =
+  | { type: "result"; id: number; result: SearchResult }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeTag, getTagCategory } from "./taxonomy";
+
+describe("canonicalizeTag", () => {
+  it("maps spelling variants to the canonical tag", () => {
+    expect(canonicalizeTag("Emojis")).toEqual({ tag: "emoji", known: true });
+    expect(canonicalizeTag("E-Mail")).toEqual({ tag: "email", known: true });
+    expect(canonicalizeTag(" arrow ")).toEqual({ tag: "arrows", known: true });
+  });
+
+  it("keeps related words and abbreviations as tags of their own", () => {
+    expect(canonicalizeTag("JS")).toEqual({ tag: "js", known: false });
+    expect(canonicalizeTag("Time")).toEqual({ tag: "time", known: false });
+    expect(canonicalizeTag("terminal")).toEqual({
+      tag: "terminal",
+      known: false,
+    });
+  });
+
+  it("keeps unknown tags, trimmed and lowercased", () => {
+    expect(canonicalizeTag("  Greek Letters ")).toEqual({
+      tag: "greek letters",
+      known: false,
+    });
+    expect(canonicalizeTag("日本語")).toEqual({ tag: "日本語", known: false });
+  });
+});
+
+describe("getTagCategory", () => {
+  it("gets the category of known tags", () => {
+    expect(getTagCategory("emoji")?.id).toBe("symbols");
+    expect(getTagCategory("maths")?.id).toBe("symbols");
+    expect(getTagCategory("js")).toBeUndefined();
+  });
+});
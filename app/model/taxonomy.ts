@@ -0,0 +1,101 @@
+import { slugify } from "../lib/utils";
+
+/**
+ * Category grouping related tags in the search filters
+ */
+export type TagCategory = {
+  id: string;
+  label: string;
+};
+
+/**
+ * A curated tag, with the other spellings of the same word merged into it
+ */
+export type CanonicalTag = {
+  tag: string;
+  /** Id of the parent category */
+  category: TagCategory["id"];
+  /**
+   * Plurals and other spellings of the same word only: never abbreviations,
+   * full forms or related words, which are tags of their own
+   */
+  aliases?: string[];
+};
+
+export const tagCategories: TagCategory[] = [
+  { id: "symbols", label: "Symbols" },
+  { id: "languages", label: "Languages" },
+  { id: "development", label: "Development" },
+  { id: "writing", label: "Writing" },
+  { id: "utilities", label: "Utilities" },
+  { id: "professional", label: "Professional" },
+];
+
+// Tags of the index are lowercased and mapped to these; others are kept as
+// they are and listed in the unknown-tags build report for curation
+export const canonicalTags: CanonicalTag[] = [
+  { tag: "emoji", category: "symbols", aliases: ["emojis"] },
+  { tag: "kaomoji", category: "symbols", aliases: ["kaomojis"] },
+  { tag: "symbols", category: "symbols", aliases: ["symbol"] },
+  { tag: "unicode", category: "symbols" },
+  { tag: "arrows", category: "symbols", aliases: ["arrow"] },
+  { tag: "math", category: "symbols", aliases: ["maths"] },
+  { tag: "greek", category: "symbols" },
+  { tag: "accents", category: "languages", aliases: ["accent"] },
+  { tag: "autocorrect", category: "languages" },
+  { tag: "typos", category: "languages", aliases: ["typo"] },
+  { tag: "english", category: "languages" },
+  { tag: "french", category: "languages" },
+  { tag: "german", category: "languages" },
+  { tag: "italian", category: "languages" },
+  { tag: "portuguese", category: "languages" },
+  { tag: "spanish", category: "languages" },
+  { tag: "code", category: "development" },
+  { tag: "html", category: "development" },
+  { tag: "css", category: "development" },
+  { tag: "javascript", category: "development" },
+  { tag: "python", category: "development" },
+  { tag: "shell", category: "development" },
+  { tag: "git", category: "development" },
+  { tag: "markdown", category: "development" },
+  { tag: "latex", category: "development" },
+  { tag: "lorem", category: "writing" },
+  { tag: "text", category: "writing" },
+  { tag: "email", category: "writing", aliases: ["e-mail"] },
+  { tag: "templates", category: "writing", aliases: ["template"] },
+  { tag: "date", category: "utilities", aliases: ["dates"] },
+  { tag: "random", category: "utilities" },
+  { tag: "utility", category: "utilities", aliases: ["utilities"] },
+  { tag: "medical", category: "professional" },
+  { tag: "legal", category: "professional" },
+  { tag: "business", category: "professional" },
+];
+
+// Slugs of canonical tags and of their aliases, to the canonical tag
+const canonicalBySlug = new Map(
+  canonicalTags.flatMap((canonical) =>
+    [canonical.tag, ...(canonical.aliases ?? [])].map(
+      (spelling) => [slugify(spelling), canonical] as const,
+    ),
+  ),
+);
+
+/**
+ * Maps a free-form tag to its canonical spelling. Case, punctuation and
+ * aliases are ignored: "Emojis" and "emoji" both give "emoji".
+ * @returns The canonical tag, and whether the taxonomy knows the tag
+ */
+export function canonicalizeTag(tag: string): { tag: string; known: boolean } {
+  const canonical = canonicalBySlug.get(slugify(tag));
+  return canonical
+    ? { tag: canonical.tag, known: true }
+    : { tag: tag.trim().toLowerCase(), known: false };
+}
+
+/**
+ * Gets the category of a canonical tag, if the taxonomy knows it
+ */
+export function getTagCategory(tag: string): TagCategory | undefined {
+  const canonical = canonicalBySlug.get(slugify(tag));
+  return tagCategories.find(({ id }) => id === canonical?.category);
+}
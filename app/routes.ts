@@ -3,8 +3,23 @@ import { type RouteConfig, index, route } from "@react-router/dev/routes";
 export default [
   index("routes/home.tsx"),
   route("search", "routes/search.tsx"),
+  route("search-index.json", "routes/search-index.ts"),
+  route("conflicts", "routes/conflicts.tsx"),
+  route("status", "routes/status.tsx"),
+  route("author/:author", "routes/author.tsx"),
+  route("tags", "routes/tags.tsx"),
+  route("tag/:tag", "routes/tag.tsx"),
+  route("robots.txt", "routes/robots.ts"),
+  route("sitemap.xml", "routes/sitemap-index.ts"),
+  route("sitemaps/:file", "routes/sitemap.ts"),
+  route("feeds/:file", "routes/feed.ts"),
+  route("feeds/:scope/:file", "routes/feed.ts", { id: "scoped-feed" }),
+  route("api/packages.json", "routes/api-packages.ts"),
+  route("api/packages/:file", "routes/api-package.ts"),
+  route("api/tags.json", "routes/api-tags.ts"),
   route(":packageName", "routes/package.tsx"),
   route(":packageName/v/:version", "routes/package.tsx", {
     id: "package-version",
   }),
+  route(":packageName/compare/:range", "routes/compare.tsx"),
 ] satisfies RouteConfig;
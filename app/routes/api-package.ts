@@ -0,0 +1,12 @@
+import { getApiPackageDetail } from "../services/api";
+import type { Route } from "./+types/api-package";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const name = params.file.replace(/\.json$/, "");
+  const detail = name !== params.file ? await getApiPackageDetail(name) : null;
+  if (!detail) {
+    throw new Response("Package not found", { status: 404 });
+  }
+
+  return Response.json(detail);
+}
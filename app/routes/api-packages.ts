@@ -0,0 +1,5 @@
+import { getApiPackageList } from "../services/api";
+
+export async function loader() {
+  return Response.json(await getApiPackageList());
+}
@@ -0,0 +1,5 @@
+import { getApiTagList } from "../services/api";
+
+export async function loader() {
+  return Response.json(await getApiTagList());
+}
@@ -0,0 +1,119 @@
+import { Keyboard, Package as PackageIcon, Rss, Tag } from "lucide-react";
+import { useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { Header } from "~/components/Header";
+import { PackageCard } from "~/components/PackageCard";
+import { Badge } from "~/components/ui/badge";
+import { tagPath } from "~/lib/utils";
+import { getAuthorProfile } from "../services/authors";
+import { feedPath } from "../services/feeds";
+import type { Route } from "./+types/author";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const profile = await getAuthorProfile(params.author);
+  if (!profile) {
+    throw new Response("Author not found", { status: 404 });
+  }
+  return {
+    profile,
+    feedUrl: feedPath({ type: "author", slug: profile.slug }, "atom"),
+  };
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data) {
+    return [{ title: "Author Not Found" }];
+  }
+
+  const { name, packages } = data.profile;
+  return [
+    { title: `${name} - Espanso Hub` },
+    {
+      name: "description",
+      content: `${packages.length} espanso package${packages.length !== 1 ? "s" : ""} by ${name}`,
+    },
+  ];
+}
+
+export default function Author({
+  loaderData: { profile, feedUrl },
+}: Route.ComponentProps) {
+  const navigate = useNavigate();
+  const [searchValue, setSearchValue] = useState("");
+  const { name, packages, triggerCount, tags } = profile;
+
+  const handleTagClick = (tag: string) => {
+    navigate(tagPath(tag));
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header
+        searchValue={searchValue}
+        onSearchChange={setSearchValue}
+        onSearchSubmit={(searchValue) => {
+          navigate(`/search?q=${encodeURIComponent(searchValue.trim())}`);
+        }}
+      />
+
+      <main className="flex-1 bg-white">
+        <div className="content-row py-8 space-y-8">
+          <div className="space-y-3">
+            <h1 className="text-3xl md:text-4xl font-bold">{name}</h1>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">
+                <PackageIcon />
+                {packages.length} package{packages.length !== 1 ? "s" : ""}
+              </Badge>
+              <Badge variant="outline">
+                <Keyboard />
+                {triggerCount} trigger{triggerCount !== 1 ? "s" : ""}
+              </Badge>
+              <Badge variant="outline">
+                <Tag />
+                {tags.length} tag{tags.length !== 1 ? "s" : ""}
+              </Badge>
+              <Badge variant="outline" asChild>
+                <Link to={feedUrl} reloadDocument>
+                  <Rss />
+                  Feed
+                </Link>
+              </Badge>
+            </div>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-semibold text-muted-foreground">
+                Tags used
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                {tags.map(({ tag, count }) => (
+                  <Badge
+                    key={tag}
+                    variant="secondary"
+                    className="cursor-pointer hover:bg-secondary/80"
+                    onClick={() => handleTagClick(tag)}
+                  >
+                    {tag}
+                    <span className="text-muted-foreground">{count}</span>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+            {packages.map((pkg) => (
+              <PackageCard
+                key={pkg.id}
+                package={pkg}
+                onTagClick={handleTagClick}
+              />
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
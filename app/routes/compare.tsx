@@ -0,0 +1,252 @@
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import { useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { match, P } from "ts-pattern";
+import { FileDiffView } from "~/components/FileDiffView";
+import { Header } from "~/components/Header";
+import { VersionLabel } from "~/components/VersionLabel";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "~/components/ui/select";
+import { Separator } from "~/components/ui/separator";
+import { primaryTrigger, type PackageMatch } from "~/model/matches";
+import { diffFiles, diffMatches } from "../services/diff";
+import { parsePackageMatches } from "../services/matches";
+import { reportFailedPage } from "../services/prerender";
+import {
+  fetchPackageArchive,
+  getCompareRanges,
+  getPackageByNameAndVersion,
+} from "../services/packages";
+import type { Route } from "./+types/compare";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { packageName, range } = params;
+  const [from, to] = range.split("...");
+
+  const [fromPkg, toPkg] = await Promise.all([
+    from ? getPackageByNameAndVersion(packageName, from) : null,
+    to ? getPackageByNameAndVersion(packageName, to) : null,
+  ]);
+
+  return match([fromPkg, toPkg])
+    .with([P.nonNullable, P.nonNullable], async ([fromP, toP]) => {
+      // Only these ranges are prerendered, so only they are offered
+      const ranges = await getCompareRanges(packageName);
+      const archives = await Promise.all(
+        [fromP, toP].map((pkg) => fetchPackageArchive(pkg)),
+      );
+      archives.forEach(({ available }, i) => {
+        if (!available) {
+          const { name, version } = [fromP, toP][i];
+          reportFailedPage(request, `the ${name} v${version} archive`);
+        }
+      });
+      const [fromFiles, toFiles] = archives.map(({ files }) => files);
+
+      return {
+        name: toP.name,
+        title: toP.title,
+        from: fromP.version,
+        to: toP.version,
+        ranges,
+        files: diffFiles(fromFiles, toFiles),
+        matches: diffMatches(
+          parsePackageMatches(fromFiles).matches,
+          parsePackageMatches(toFiles).matches,
+        ),
+      };
+    })
+    .otherwise(() => {
+      throw new Response("Package versions not found", { status: 404 });
+    });
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data) {
+    return [{ title: "Package Versions Not Found" }];
+  }
+
+  return [
+    { title: `${data.title} v${data.from} → v${data.to} - Espanso Hub` },
+    {
+      name: "description",
+      content: `Changes in ${data.name} between v${data.from} and v${data.to}`,
+    },
+  ];
+}
+
+function MatchSummaryRow({
+  m,
+  before,
+}: {
+  m: PackageMatch;
+  before?: PackageMatch;
+}) {
+  return (
+    <li className="py-2 flex flex-col md:flex-row gap-2 md:gap-4 text-sm">
+      <code className="font-mono text-xs bg-muted rounded px-1.5 py-0.5 w-fit h-fit break-all">
+        {primaryTrigger(m)}
+      </code>
+      <div className="flex-1 min-w-0 space-y-1">
+        {before && before.expansion !== m.expansion && (
+          <p className="whitespace-pre-wrap break-words line-clamp-3 text-red-700 line-through">
+            {before.expansion}
+          </p>
+        )}
+        <p className="whitespace-pre-wrap break-words line-clamp-3">
+          {m.expansion}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+export default function Compare({ loaderData }: Route.ComponentProps) {
+  const { name, title, from, to, ranges, files, matches } = loaderData;
+  const navigate = useNavigate();
+  const [searchValue, setSearchValue] = useState("");
+
+  const changedFiles = files.filter((f) => f.status !== "unchanged");
+  const unchangedCount = files.length - changedFiles.length;
+
+  const handleRangeChange = (range: string) => {
+    navigate(`/${name}/compare/${range}`);
+  };
+
+  const sections: Array<{
+    label: string;
+    items: Array<{ m: PackageMatch; before?: PackageMatch }>;
+  }> = [
+    { label: "Added", items: matches.added.map((m) => ({ m })) },
+    { label: "Removed", items: matches.removed.map((m) => ({ m })) },
+    {
+      label: "Changed",
+      items: matches.changed.map(({ before, after }) => ({ m: after, before })),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header
+        searchValue={searchValue}
+        onSearchChange={setSearchValue}
+        onSearchSubmit={(searchValue) => {
+          navigate(`/search?q=${encodeURIComponent(searchValue.trim())}`);
+        }}
+      />
+
+      {/* Top Content */}
+      <div className="bg-white py-8">
+        <div className="content-row space-y-4">
+          <Link
+            to={`/${name}`}
+            className="text-sm text-muted-foreground hover:underline flex items-center gap-1"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            {title}
+          </Link>
+
+          <h1 className="text-3xl md:text-5xl font-bold">Compare versions</h1>
+
+          {/* Range Selector: consecutive versions, then older ones with the latest */}
+          <Select value={`${from}...${to}`} onValueChange={handleRangeChange}>
+            <SelectTrigger aria-label="Compared versions">
+              v{from}
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />v{to}
+            </SelectTrigger>
+            <SelectContent>
+              {ranges.map((range) => (
+                <SelectItem
+                  key={`${range.from}...${range.to}`}
+                  value={`${range.from}...${range.to}`}
+                >
+                  <VersionLabel version={range.from} />
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  <VersionLabel version={range.to} />
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex flex-wrap gap-2">
+            <Badge>+{matches.added.length} matches added</Badge>
+            <Badge variant="destructive">
+              -{matches.removed.length} matches removed
+            </Badge>
+            <Badge variant="secondary">
+              ~{matches.changed.length} matches changed
+            </Badge>
+            <Badge variant="outline">
+              {changedFiles.length} file{changedFiles.length !== 1 ? "s" : ""}{" "}
+              changed
+            </Badge>
+          </div>
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* Bottom Content */}
+      <div className="content-row py-8 flex-1 flex flex-col gap-6">
+        {/* Semantic Summary */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Matches</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {sections.every(({ items }) => items.length === 0) ? (
+              <p className="text-center text-muted-foreground p-4">
+                No match was added, removed or changed
+              </p>
+            ) : (
+              sections
+                .filter(({ items }) => items.length > 0)
+                .map(({ label, items }) => (
+                  <div key={label}>
+                    <h3 className="text-sm font-semibold">
+                      {label} ({items.length})
+                    </h3>
+                    <ul className="divide-y">
+                      {items.map(({ m, before }) => (
+                        <MatchSummaryRow key={m.id} m={m} before={before} />
+                      ))}
+                    </ul>
+                  </div>
+                ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* File Diffs */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Files</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {changedFiles.length === 0 ? (
+              <p className="text-center text-muted-foreground p-4">
+                Both versions have identical files
+              </p>
+            ) : (
+              changedFiles.map((diff) => (
+                <FileDiffView key={diff.file} diff={diff} />
+              ))
+            )}
+            {unchangedCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {unchangedCount} unchanged file
+                {unchangedCount !== 1 ? "s" : ""} not shown
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
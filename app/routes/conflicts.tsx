@@ -0,0 +1,174 @@
+import { TriangleAlert } from "lucide-react";
+import { useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { Header } from "~/components/Header";
+import { EmptyState } from "~/components/EmptyState";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { getConflictReport } from "../services/conflicts";
+import type { Route } from "./+types/conflicts";
+
+// Keep the report (and its loader data) readable: only the worst offenders are listed
+const PACKAGES_LIMIT = 50;
+const TRIGGERS_LIMIT = 100;
+const SAMPLE_TRIGGERS = 8;
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Trigger Conflicts - Espanso Hub" },
+    {
+      name: "description",
+      content: "Packages defining the same triggers as other packages",
+    },
+  ];
+}
+
+export async function loader() {
+  const report = await getConflictReport();
+
+  return {
+    totalPackages: report.packages.length,
+    totalTriggers: report.triggers.length,
+    packages: report.packages.slice(0, PACKAGES_LIMIT).map((summary) => ({
+      name: summary.name,
+      triggerCount: summary.triggerCount,
+      conflictCount: summary.conflicts.length,
+      conflictsWith: summary.conflictsWith,
+      sampleTriggers: summary.conflicts
+        .slice(0, SAMPLE_TRIGGERS)
+        .map((c) => c.trigger),
+    })),
+    triggers: report.triggers.slice(0, TRIGGERS_LIMIT),
+  };
+}
+
+export default function Conflicts({
+  loaderData: { totalPackages, totalTriggers, packages, triggers },
+}: Route.ComponentProps) {
+  const navigate = useNavigate();
+  const [searchValue, setSearchValue] = useState("");
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header
+        searchValue={searchValue}
+        onSearchChange={setSearchValue}
+        onSearchSubmit={(searchValue) => {
+          navigate(`/search?q=${encodeURIComponent(searchValue.trim())}`);
+        }}
+      />
+
+      <main className="flex-1 bg-white">
+        <div className="content-row py-8 space-y-8">
+          <div className="space-y-2">
+            <h1 className="text-3xl md:text-4xl font-bold">
+              Trigger Conflicts
+            </h1>
+            <p className="text-muted-foreground">
+              {totalTriggers} trigger{totalTriggers !== 1 ? "s are" : " is"}{" "}
+              defined by more than one package, affecting {totalPackages}{" "}
+              package{totalPackages !== 1 ? "s" : ""}. Installing conflicting
+              packages together makes one expansion shadow the other.
+            </p>
+          </div>
+
+          {packages.length === 0 ? (
+            <EmptyState
+              title="No conflicts found"
+              description="Every trigger is defined by a single package"
+            />
+          ) : (
+            <div className="flex flex-col lg:flex-row gap-6">
+              {/* Worst offending packages */}
+              <Card className="flex-1">
+                <CardHeader>
+                  <CardTitle>Packages with most conflicts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y">
+                    {packages.map((summary) => (
+                      <li key={summary.name} className="py-3 space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <Link
+                            to={`/${summary.name}`}
+                            className="font-mono text-sm text-primary hover:underline"
+                          >
+                            {summary.name}
+                          </Link>
+                          <Badge variant="secondary">
+                            <TriangleAlert />
+                            {summary.conflictCount} / {summary.triggerCount}{" "}
+                            triggers
+                          </Badge>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {summary.sampleTriggers.map((trigger) => (
+                            <code
+                              key={trigger}
+                              className="font-mono text-xs bg-muted rounded px-1.5 py-0.5"
+                            >
+                              {trigger}
+                            </code>
+                          ))}
+                          {summary.conflictCount >
+                            summary.sampleTriggers.length && (
+                            <span className="text-xs text-muted-foreground">
+                              +
+                              {summary.conflictCount -
+                                summary.sampleTriggers.length}{" "}
+                              more
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Conflicts with{" "}
+                          {summary.conflictsWith.map((name, i) => (
+                            <span key={name}>
+                              {i > 0 && ", "}
+                              <Link
+                                to={`/${name}`}
+                                className="font-mono hover:underline"
+                              >
+                                {name}
+                              </Link>
+                            </span>
+                          ))}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+
+              {/* Most contested triggers */}
+              <Card className="lg:w-1/3">
+                <CardHeader>
+                  <CardTitle>Most contested triggers</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y">
+                    {triggers.map(({ trigger, packages: names }) => (
+                      <li key={trigger} className="py-2 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <code className="font-mono text-xs bg-muted rounded px-1.5 py-0.5">
+                            {trigger}
+                          </code>
+                          <span className="text-xs text-muted-foreground">
+                            {names.length} packages
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {names.join(", ")}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
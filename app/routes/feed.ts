@@ -0,0 +1,38 @@
+import { match, P } from "ts-pattern";
+import { renderFeed, type FeedScope } from "../services/feeds";
+import type { Route } from "./+types/feed";
+
+const contentTypes = {
+  atom: "application/atom+xml; charset=utf-8",
+  rss: "application/rss+xml; charset=utf-8",
+} as const;
+
+const notFound = () => new Response("Feed not found", { status: 404 });
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const [, slug, extension] = params.file.match(/^(.+)\.(\w+)$/) ?? [];
+  const format = match(extension)
+    .with("atom", "rss", (format) => format)
+    .otherwise(() => null);
+  const scope = match([params.scope, slug])
+    .returnType<FeedScope | null>()
+    .with([undefined, "packages"], () => ({ type: "all" }))
+    .with(["tag", P.string], ["author", P.string], ([type, slug]) => ({
+      type,
+      slug,
+    }))
+    .otherwise(() => null);
+
+  if (!format || !scope) {
+    throw notFound();
+  }
+
+  const feed = await renderFeed(scope, format);
+  if (!feed) {
+    throw notFound();
+  }
+
+  return new Response(feed, {
+    headers: { "Content-Type": contentTypes[format] },
+  });
+}
@@ -8,6 +8,7 @@ import type { Route } from "./+types/home";
 import { Badge } from "../components/ui/badge";
 import { isFeatured } from "../model/packages";
 import { PackageCard } from "../components/PackageCard";
+import { tagPath } from "../lib/utils";
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -102,7 +103,7 @@ export default function Home({
                   <PackageCard
                     package={pkg}
                     showFeaturedBadge={false}
-                    onTagClick={() => {}}
+                    onTagClick={(tag) => navigate(tagPath(tag))}
                   />
                 </div>
               ))}
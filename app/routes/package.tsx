@@ -1,7 +1,17 @@
-import { Check, Copy, Github, Share2, ShieldIcon } from "lucide-react";
+import {
+  Check,
+  Copy,
+  GitCompare,
+  GitCompareArrows,
+  Github,
+  Share2,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldIcon,
+} from "lucide-react";
 import { useEffect, useState } from "react";
 import Markdown from "react-markdown";
-import { useNavigate } from "react-router";
+import { Link, useNavigate } from "react-router";
 import remarkGfm from "remark-gfm";
 import { match } from "ts-pattern";
 import { Badge } from "~/components/ui/badge";
@@ -14,6 +24,14 @@ import {
   SelectTrigger,
 } from "~/components/ui/select";
 import { Separator } from "~/components/ui/separator";
+import { TriggerTable } from "~/components/TriggerTable";
+import { ConflictList } from "~/components/ConflictList";
+import { ExpansionPlayground } from "~/components/ExpansionPlayground";
+import { QualityBreakdown } from "~/components/QualityBreakdown";
+import { AuthorLinks } from "~/components/AuthorLinks";
+import { VersionLabel } from "~/components/VersionLabel";
+import { compareVersions, isPrerelease } from "~/lib/semver";
+import { tagPath } from "~/lib/utils";
 import { isFeatured, type Package } from "~/model/packages";
 import { Header } from "../components/Header";
 import {
@@ -23,15 +41,19 @@ import {
   TabsTrigger,
 } from "../components/ui/tabs";
 import {
-  fetchPackageFiles,
+  fetchPackageArchive,
   getPackageByName,
   getPackageByNameAndVersion,
   getVersionsForPackage,
   parseManifest,
 } from "../services/packages";
+import { collectTriggers, parsePackageMatches } from "../services/matches";
+import { getPackageConflicts } from "../services/conflicts";
+import { computeQuality } from "../services/quality";
+import { reportFailedPage } from "../services/prerender";
 import type { Route } from "./+types/package";
 
-export async function loader({ params }: Route.LoaderArgs) {
+export async function loader({ params, request }: Route.LoaderArgs) {
   const { packageName, version } = params;
 
   // If version is provided, fetch specific version; otherwise fetch latest
@@ -48,16 +70,33 @@ export async function loader({ params }: Route.LoaderArgs) {
     })
     .otherwise(async (p) => {
       const versions = await getVersionsForPackage(packageName);
-      const isLatest = !version || versions[0] === version;
+      const latestVersion = (await getPackageByName(packageName))?.version;
+      const isLatest = !version || latestVersion === version;
 
-      // Fetch the package archive files
-      const files = await fetchPackageFiles(p.archive_url);
+      // Fetch the package archive files, verified against their published hash
+      const { files, integrity, available } = await fetchPackageArchive(p);
+      if (!available) {
+        reportFailedPage(request, `the ${p.name} v${p.version} archive`);
+      }
 
       // Extract repository home URL from _manifest.yml if available
       const repositoryHome = files["_manifest.yml"]
         ? parseManifest(files["_manifest.yml"])
         : null;
 
+      // Parse match files into a structured trigger list
+      const parsed = parsePackageMatches(files);
+      const { matches, globalVars, errors, skipped } = parsed;
+
+      // Lint the package from its index entry and files
+      const quality = computeQuality(p, files, parsed);
+
+      // Find triggers shadowed by (or shadowing) other packages
+      const conflicts = await getPackageConflicts(
+        p.name,
+        collectTriggers(matches),
+      );
+
       // Add files and repositoryHome to the package object
       const packageWithFiles = {
         ...p,
@@ -65,7 +104,20 @@ export async function loader({ params }: Route.LoaderArgs) {
         repositoryHome: repositoryHome || undefined,
       };
 
-      return { package: packageWithFiles, versions, isLatest };
+      return {
+        package: packageWithFiles,
+        versions,
+        latestVersion,
+        isLatest,
+        integrity,
+        archiveAvailable: available,
+        matches,
+        matchErrors: errors,
+        skippedMatches: skipped,
+        globalVars,
+        conflicts,
+        quality,
+      };
     });
 }
 
@@ -85,7 +137,20 @@ export function meta({ data, params }: Route.MetaArgs) {
 }
 
 export default function PackageRoute({ loaderData }: Route.ComponentProps) {
-  const { package: pkg, versions, isLatest } = loaderData;
+  const {
+    package: pkg,
+    versions,
+    latestVersion,
+    isLatest,
+    integrity,
+    archiveAvailable,
+    matches,
+    matchErrors,
+    skippedMatches,
+    globalVars,
+    conflicts,
+    quality,
+  } = loaderData;
   const navigate = useNavigate();
   const [copied, setCopied] = useState(false);
   const [sharecopied, setShareCopied] = useState(false);
@@ -129,8 +194,16 @@ export default function PackageRoute({ loaderData }: Route.ComponentProps) {
     setTimeout(() => setCopiedState(false), 2000);
   };
 
+  // Versions are sorted in descending order: the previous one comes next
+  const previousVersion = versions[versions.indexOf(pkg.version) + 1];
+  // Versions older than the latest one can also be compared with it
+  const newerLatestVersion =
+    latestVersion && compareVersions(pkg.version, latestVersion) < 0
+      ? latestVersion
+      : undefined;
+
   const handleVersionChange = (version: string) => {
-    if (version === versions[0]) {
+    if (version === latestVersion) {
       navigate(`/${pkg.name}`);
     } else {
       navigate(`/${pkg.name}/v/${version}`);
@@ -138,7 +211,7 @@ export default function PackageRoute({ loaderData }: Route.ComponentProps) {
   };
 
   const handleTagClick = (tag: string) => {
-    navigate(`/search?t=${tag}`);
+    navigate(tagPath(tag));
   };
 
   const handleShare = () => {
@@ -171,6 +244,39 @@ export default function PackageRoute({ loaderData }: Route.ComponentProps) {
                     Featured
                   </Badge>
                 )}
+                {isPrerelease(pkg.version) && (
+                  <Badge variant="outline">Pre-release</Badge>
+                )}
+                {match(integrity)
+                  .with("verified", () => (
+                    <Badge
+                      variant="outline"
+                      title="The archive matches its published SHA-256 hash"
+                    >
+                      <ShieldCheck className="text-green-700" />
+                      Verified
+                    </Badge>
+                  ))
+                  .with("mismatch", () => (
+                    <Badge
+                      variant="destructive"
+                      title="The archive does not match its published SHA-256 hash"
+                    >
+                      <ShieldAlert />
+                      Hash mismatch
+                    </Badge>
+                  ))
+                  .with("unverified", () => null)
+                  .exhaustive()}
+                {!archiveAvailable && (
+                  <Badge
+                    variant="destructive"
+                    title="The package archive could not be downloaded: files and triggers are missing"
+                  >
+                    <ShieldAlert />
+                    Archive unavailable
+                  </Badge>
+                )}
               </div>
 
               <div className="flex items-center gap-2 self-start md:self-auto">
@@ -196,6 +302,30 @@ export default function PackageRoute({ loaderData }: Route.ComponentProps) {
                   </Button>
                 )}
 
+                {previousVersion && (
+                  <Button variant="ghost" size="icon" asChild>
+                    <Link
+                      to={`/${pkg.name}/compare/${previousVersion}...${pkg.version}`}
+                      aria-label={`Compare with v${previousVersion}`}
+                      title={`Compare with v${previousVersion}`}
+                    >
+                      <GitCompare className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                )}
+
+                {newerLatestVersion && (
+                  <Button variant="ghost" size="icon" asChild>
+                    <Link
+                      to={`/${pkg.name}/compare/${pkg.version}...${newerLatestVersion}`}
+                      aria-label={`Compare with the latest version, v${newerLatestVersion}`}
+                      title={`Compare with the latest version, v${newerLatestVersion}`}
+                    >
+                      <GitCompareArrows className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                )}
+
                 {/* Version Selector */}
                 <Select value={pkg.version} onValueChange={handleVersionChange}>
                   <SelectTrigger className="w-[130px] md:w-auto">
@@ -204,7 +334,7 @@ export default function PackageRoute({ loaderData }: Route.ComponentProps) {
                   <SelectContent>
                     {versions.map((version) => (
                       <SelectItem key={version} value={version}>
-                        v{version}
+                        <VersionLabel version={version} />
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -220,7 +350,9 @@ export default function PackageRoute({ loaderData }: Route.ComponentProps) {
                 </p>
 
                 {/* Author */}
-                <p className="text-sm text-muted-foreground">by {pkg.author}</p>
+                <p className="text-sm text-muted-foreground">
+                  by <AuthorLinks author={pkg.author} />
+                </p>
 
                 {/* Description */}
                 <p className="text-base leading-relaxed">{pkg.description}</p>
@@ -283,6 +415,16 @@ export default function PackageRoute({ loaderData }: Route.ComponentProps) {
             <CardTitle>
               <TabsList>
                 <TabsTrigger value="description">Description</TabsTrigger>
+                <TabsTrigger value="triggers">
+                  Triggers ({matches.length})
+                </TabsTrigger>
+                <TabsTrigger value="playground">Try it</TabsTrigger>
+                <TabsTrigger value="conflicts">
+                  Conflicts ({conflicts.length})
+                </TabsTrigger>
+                <TabsTrigger value="quality">
+                  Quality ({quality.score})
+                </TabsTrigger>
                 <TabsTrigger value="source">Source</TabsTrigger>
               </TabsList>
             </CardTitle>
@@ -319,6 +461,30 @@ export default function PackageRoute({ loaderData }: Route.ComponentProps) {
               </p>
             </TabsContent>
 
+            {/* Triggers */}
+            <TabsContent value="triggers" className="h-full flex flex-col">
+              <TriggerTable
+                matches={matches}
+                errors={matchErrors}
+                skipped={skippedMatches}
+              />
+            </TabsContent>
+
+            {/* Playground */}
+            <TabsContent value="playground" className="h-full flex flex-col">
+              <ExpansionPlayground matches={matches} globalVars={globalVars} />
+            </TabsContent>
+
+            {/* Conflicts */}
+            <TabsContent value="conflicts" className="h-full flex flex-col">
+              <ConflictList conflicts={conflicts} />
+            </TabsContent>
+
+            {/* Quality */}
+            <TabsContent value="quality" className="h-full flex flex-col">
+              <QualityBreakdown quality={quality} />
+            </TabsContent>
+
             {/* Source */}
             <TabsContent value="source" className="h-full flex flex-col">
               {pkg.files && Object.keys(pkg.files).length > 0 ? (
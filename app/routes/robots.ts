@@ -0,0 +1,17 @@
+import { absoluteUrl } from "../services/site";
+
+// Crawlers only read robots.txt at the root of the host, outside of BASENAME:
+// this one is built for the host's robots.txt to include, see the README
+export function loader() {
+  const robots = [
+    "User-agent: *",
+    "Allow: /",
+    "",
+    `Sitemap: ${absoluteUrl("/sitemap.xml")}`,
+    "",
+  ].join("\n");
+
+  return new Response(robots, {
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
@@ -0,0 +1,5 @@
+import { getSearchIndex } from "../services/search-index";
+
+export async function loader() {
+  return Response.json(await getSearchIndex());
+}
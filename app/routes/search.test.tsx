@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createRoutesStub,
+  Outlet,
+  ScrollRestoration,
+  useNavigate,
+} from "react-router";
+import type { SearchDocument, SearchIndex } from "../model/search";
+import { createSearchIndex } from "../services/search";
+import Search from "./search";
+
+const packages: SearchDocument[] = Array.from({ length: 50 }, (_, i) => {
+  const number = String(i + 1).padStart(2, "0");
+  return {
+    id: `package-${number}@1.0.0`,
+    name: `package-${number}`,
+    version: "1.0.0",
+    title: `Package ${number}`,
+    description: "d",
+    author: "a",
+    tags: [],
+    triggers: [],
+  };
+});
+
+const index: SearchIndex = {
+  generatedAt: new Date(0).toISOString(),
+  packages,
+  fuseIndex: createSearchIndex(packages),
+  scores: {},
+  updatedAt: {},
+  versionCounts: {},
+};
+
+function PackagePage() {
+  const navigate = useNavigate();
+  return <button onClick={() => navigate(-1)}>Back</button>;
+}
+
+const Stub = createRoutesStub([
+  {
+    Component: () => (
+      <>
+        <Outlet />
+        <ScrollRestoration />
+      </>
+    ),
+    HydrateFallback: () => null,
+    children: [
+      {
+        path: "/search",
+        // Typed route props are not known to the stub, which does pass them
+        Component: Search as unknown as () => React.ReactNode,
+        loader: () => ({
+          prerendered: { packages: [], total: 0, tagCounts: [], scores: {} },
+        }),
+      },
+      { path: "/:name", Component: PackagePage },
+    ],
+  },
+]);
+
+describe("Search", () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(JSON.stringify(index))),
+    );
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("restores the scroll position onto the results when coming back", async () => {
+    // Scroll positions restored, and whether the results were there to
+    // scroll to at that point
+    const restored: Array<{ y: number; shown: boolean }> = [];
+    vi.spyOn(window, "scrollTo").mockImplementation(((_: number, y: number) => {
+      restored.push({ y, shown: screen.queryByText("Package 41") !== null });
+    }) as typeof window.scrollTo);
+
+    render(<Stub initialEntries={["/search?page=3"]} />);
+    const card = await screen.findByText("Package 41");
+    vi.spyOn(window, "scrollY", "get").mockReturnValue(1234);
+    fireEvent.click(card);
+
+    fireEvent.click(await screen.findByText("Back"));
+    await screen.findByText("Package 41");
+
+    expect(restored.at(-1)).toEqual({ y: 1234, shown: true });
+  });
+});
@@ -1,17 +1,39 @@
 import type { Route } from "./+types/search";
-import { useState } from "react";
-import { useSearchParams } from "react-router";
-import { getPackagesIndex } from "../services/packages";
+import { useEffect, useMemo, useState } from "react";
+import { useHref, useSearchParams } from "react-router";
+import type { SearchIndex } from "../model/search";
 import {
-  applyFilters,
-  countTags,
-  filterByTags,
-  selectLatestPerName,
-  textSearch,
+  resolveSortKey,
+  SORT_KEYS,
+  sortPackages,
+  type SearchOptions,
+  type SearchResult,
+  type SortKey,
+  type TagFilter,
 } from "../services/search";
+import {
+  createSearchClient,
+  type SearchClient,
+} from "../services/search-client";
+import { getSearchIndex } from "../services/search-index";
+import {
+  describeQueryTerm,
+  parseQuery,
+  removeQueryTerm,
+} from "../services/query";
 import { Header } from "~/components/Header";
+import { Pagination } from "~/components/Pagination";
 import { PackageCard } from "~/components/PackageCard";
-import { CheckboxFilterGroup } from "~/components/CheckboxFilterGroup";
+import {
+  CheckboxFilterGroup,
+  TagMatchModeToggle,
+  type TagFilterState,
+} from "~/components/CheckboxFilterGroup";
+import {
+  canonicalizeTag,
+  getTagCategory,
+  tagCategories,
+} from "~/model/taxonomy";
 import { RemovableBadge } from "~/components/RemovableBadge";
 import { EmptyState } from "~/components/EmptyState";
 import { Button } from "~/components/ui/button";
@@ -22,7 +44,16 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "~/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
 import { Separator } from "~/components/ui/separator";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Label } from "~/components/ui/label";
 import { SlidersHorizontal } from "lucide-react";
 
 export function meta({}: Route.MetaArgs) {
@@ -32,14 +63,169 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
+// Minimum quality score choices, as ?quality=<score>
+const QUALITY_THRESHOLDS = [50, 75, 100];
+
+// Results shown per page, as ?page=<n>
+const PAGE_SIZE = 20;
+
+const SORT_LABELS: Record<SortKey, string> = {
+  relevance: "Relevance",
+  name: "Name (A–Z)",
+  updated: "Recently updated",
+  versions: "Most versions",
+  triggers: "Most triggers",
+  quality: "Highest quality",
+};
+
+// Search of the page opened without URL parameters
+const UNFILTERED_SEARCH: SearchOptions = {
+  query: "",
+  exact: false,
+  tagFilter: { included: [], excluded: [], mode: "any" },
+};
+
 export async function loader() {
-  const packagesIndex = await getPackagesIndex();
-  return { packages: packagesIndex.packages };
+  const index = await getSearchIndex();
+
+  // Prerender the first page of unfiltered results, searched on the main
+  // thread as there are no workers here; the lazily loaded index takes over
+  // once the page is hydrated
+  const result = await createSearchClient(index).search(UNFILTERED_SEARCH);
+  const packagesById = new Map(index.packages.map((pkg) => [pkg.id, pkg]));
+  const packages = sortPackages(
+    result.hits.flatMap((hit) => packagesById.get(hit.id) ?? []),
+    "name",
+    index,
+  );
+  const pagePackages = packages.slice(0, PAGE_SIZE);
+
+  return {
+    prerendered: {
+      packages: pagePackages,
+      total: packages.length,
+      tagCounts: result.tagCounts,
+      scores: Object.fromEntries(
+        pagePackages.map(({ name }) => [name, index.scores[name]]),
+      ),
+    },
+  };
+}
+
+// Delay before searching what is typed, so that a search runs once typing
+// pauses rather than on every keystroke
+const SEARCH_DEBOUNCE_MS = 150;
+
+type LoadedSearch = { index: SearchIndex; client: SearchClient };
+
+// Search index and its client, loaded once when the search page is first shown
+let searchPromise: Promise<LoadedSearch> | undefined;
+let loadedSearch: LoadedSearch | undefined;
+
+function loadSearch(url: string): Promise<LoadedSearch> {
+  searchPromise ??= fetch(url)
+    .then((response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to load search index: ${response.status}`);
+      }
+      return response.json() as Promise<SearchIndex>;
+    })
+    .then((index) => {
+      loadedSearch = { index, client: createSearchClient(index) };
+      return loadedSearch;
+    })
+    .catch((error) => {
+      // Let the next visit of the page try again
+      searchPromise = undefined;
+      throw error;
+    });
+  return searchPromise;
+}
+
+/**
+ * Loads the prebuilt search index (see the search-index.json route) and the
+ * client searching it
+ */
+function useSearch() {
+  const url = useHref("/search-index.json");
+  const [search, setSearch] = useState(loadedSearch);
+  const [error, setError] = useState<Error>();
+
+  useEffect(() => {
+    if (search) {
+      return;
+    }
+    let cancelled = false;
+    loadSearch(url).then(
+      (loaded) => !cancelled && setSearch(loaded),
+      (err) => !cancelled && setError(err),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [search, url]);
+
+  return { ...search, error };
+}
+
+// Last search result, by its options: coming back to the same search (e.g.
+// with the back button) shows it on the first render, which scroll
+// restoration needs to find the page as tall as it was left
+let lastResult: { key: string; result: SearchResult } | undefined;
+
+/**
+ * Runs a search once its options stop changing, dropping the searches whose
+ * options changed before they ran. The previous result is kept meanwhile.
+ */
+function useSearchResult(
+  client: SearchClient | undefined,
+  options: SearchOptions,
+) {
+  const key = JSON.stringify(options);
+  const [result, setResult] = useState(() =>
+    lastResult?.key === key ? lastResult.result : undefined,
+  );
+
+  useEffect(() => {
+    if (!client || lastResult?.key === key) {
+      return;
+    }
+    const controller = new AbortController();
+    // The first search is not delayed, there is nothing to show until it ends
+    const timeout = setTimeout(
+      () =>
+        client.search(options, controller.signal).then(
+          (searched) => {
+            lastResult = { key, result: searched };
+            setResult(searched);
+          },
+          (error) => {
+            if (!controller.signal.aborted) {
+              console.error("❌ Search failed:", error);
+            }
+          },
+        ),
+      result ? SEARCH_DEBOUNCE_MS : 0,
+    );
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [client, key]);
+
+  return result;
 }
 
 export default function Search({
-  loaderData: { packages },
+  loaderData: { prerendered },
 }: Route.ComponentProps) {
+  // Nothing is searched until the index is loaded
+  const { index, client, error } = useSearch();
+  const packagesById = useMemo(
+    () => new Map(index?.packages.map((pkg) => [pkg.id, pkg])),
+    [index],
+  );
+
   // URL state for tag filtering (shareable) and query parameter
   const [searchParams, setSearchParams] = useSearchParams();
 
@@ -47,48 +233,151 @@ export default function Search({
   const queryParam = searchParams.get("q") || "";
   const [textQuery, setTextQuery] = useState(queryParam);
 
-  // Parse tags from URL (?t=tag1,tag2) and normalize to lowercase unique set
-  const selectedTags = Array.from(
-    new Set(
-      searchParams
-        .get("t")
-        ?.split(",")
-        .filter(Boolean)
-        .map((t) => t.toLowerCase()) || [],
-    ),
+  // Parse a tag list from URL (?t=tag1,tag2) as a unique set of canonical tags
+  const tagsParam = (name: string) =>
+    Array.from(
+      new Set(
+        searchParams
+          .get(name)
+          ?.split(",")
+          .filter(Boolean)
+          .map((t) => canonicalizeTag(t).tag) || [],
+      ),
+    );
+
+  // Included tags (?t=), excluded tags (?tx=) and how included tags combine
+  // (?tm=all, any of them otherwise)
+  const selectedTags = tagsParam("t");
+  const excludedTags = tagsParam("tx").filter(
+    (tag) => !selectedTags.includes(tag),
   );
+  const tagFilter: TagFilter = {
+    included: selectedTags,
+    excluded: excludedTags,
+    mode: searchParams.get("tm") === "all" ? "all" : "any",
+  };
 
-  // Consider only latest version per package name
-  const latestPackages = selectLatestPerName(packages);
+  // Sort order (?sort=<key>, see resolveSortKey) and minimum quality score
+  const hasQuery = textQuery.trim() !== "";
+  const defaultSort = hasQuery ? "relevance" : "name";
+  const sort = resolveSortKey(searchParams.get("sort"), hasQuery);
+  const minQuality = Number(searchParams.get("quality")) || 0;
 
-  // Apply text search first if there's a query
-  const textFilteredPackages =
-    textQuery.trim() !== ""
-      ? textSearch(latestPackages, textQuery)
-      : latestPackages;
+  // Parse the query (field qualifiers, phrases, negation) to report errors and
+  // list its filters. ?exact=1 matches every term literally instead of fuzzily.
+  const exact = searchParams.get("exact") === "1";
+  const query = parseQuery(textQuery, exact);
+  const structuredTerms = query.terms.filter(
+    (term) => term.field !== null || term.negated || term.quoted,
+  );
 
-  // Then apply tag filtering to get final filtered packages
-  const filteredPackages =
-    selectedTags.length > 0
-      ? filterByTags(textFilteredPackages, selectedTags)
-      : textFilteredPackages;
+  // The query and tag filters run in the search worker
+  const result = useSearchResult(client, {
+    query: textQuery,
+    exact,
+    tagFilter,
+  });
+  const hits = result?.hits ?? [];
 
-  // Get tag counts for filter UI from text-filtered packages only
-  // This ensures tag counts reflect the current search term
-  const tagCounts = countTags(textFilteredPackages);
+  // Until the first search ends, the prerendered results stand in for the
+  // unfiltered ones
+  const initial =
+    !result && searchParams.toString() === "" ? prerendered : undefined;
+  const scores = index?.scores ?? initial?.scores ?? {};
+  const taggedPackages = hits.flatMap((hit) => packagesById.get(hit.id) ?? []);
 
-  // Handle tag toggle
-  const toggleTag = (tag: string) => {
-    const lowerTag = tag.toLowerCase();
-    const newTags = selectedTags.includes(lowerTag)
-      ? selectedTags.filter((t) => t !== lowerTag)
-      : [...selectedTags, lowerTag];
+  // Remember which trigger made each package match and where the query
+  // matched, to explain the result
+  const matchedTriggers = new Map(
+    hits.map((hit) => [hit.id, hit.matchedTrigger]),
+  );
+  const highlights = new Map(hits.map((hit) => [hit.id, hit.highlights]));
+
+  // Then apply the quality threshold
+  const qualityFilteredPackages = taggedPackages.filter(
+    (pkg) => (scores[pkg.name] ?? 0) >= minQuality,
+  );
+
+  const filteredPackages = sortPackages(qualityFilteredPackages, sort, {
+    updatedAt: index?.updatedAt ?? {},
+    versionCounts: index?.versionCounts ?? {},
+    scores,
+  });
 
-    if (newTags.length > 0) {
-      setSearchParams({ t: newTags.sort().join(",") });
+  // Show one page of results (?page=<n>), clamped to the available pages
+  const resultCount = initial?.total ?? filteredPackages.length;
+  const pageCount = Math.max(1, Math.ceil(resultCount / PAGE_SIZE));
+  const page = Math.min(
+    pageCount,
+    Math.max(1, Math.floor(Number(searchParams.get("page"))) || 1),
+  );
+  const pagePackages =
+    initial?.packages ??
+    filteredPackages.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  const pageHref = (p: number) => {
+    const params = new URLSearchParams(searchParams);
+    if (p > 1) {
+      params.set("page", String(p));
     } else {
-      setSearchParams({});
+      params.delete("page");
     }
+    return `?${params}`;
+  };
+
+  // Tag counts for filter UI come from text-filtered packages only, so they
+  // reflect the current search term, counted for the tag match mode
+  const tagCounts = result?.tagCounts ?? initial?.tagCounts ?? [];
+
+  // Include, exclude or clear a tag filter
+  const setTagState = (tag: string, state: TagFilterState) => {
+    const lowerTag = tag.toLowerCase();
+    const without = (tags: string[]) => tags.filter((t) => t !== lowerTag);
+    const newIncluded =
+      state === "include"
+        ? [...without(selectedTags), lowerTag]
+        : without(selectedTags);
+    const newExcluded =
+      state === "exclude"
+        ? [...without(excludedTags), lowerTag]
+        : without(excludedTags);
+
+    setSearchParams((prev) => {
+      const newParams = new URLSearchParams(prev);
+      newParams.delete("page");
+      const setTags = (name: string, tags: string[]) => {
+        if (tags.length > 0) {
+          newParams.set(name, [...tags].sort().join(","));
+        } else {
+          newParams.delete(name);
+        }
+      };
+      setTags("t", newIncluded);
+      setTags("tx", newExcluded);
+      return newParams;
+    });
+  };
+
+  // Handle tag toggle
+  const toggleTag = (tag: string) => {
+    setTagState(
+      tag,
+      selectedTags.includes(tag.toLowerCase()) ? null : "include",
+    );
+  };
+
+  // Set or remove (when null) a single URL parameter, keeping the others.
+  // Results change, so they are shown from the first page again.
+  const setParam = (name: string, value: string | null) => {
+    setSearchParams((prev) => {
+      const newParams = new URLSearchParams(prev);
+      newParams.delete("page");
+      if (value === null) {
+        newParams.delete(name);
+      } else {
+        newParams.set(name, value);
+      }
+      return newParams;
+    });
   };
 
   const clearAllFilters = () => {
@@ -105,6 +394,7 @@ export default function Search({
       setSearchParams((prev) => {
         const newParams = new URLSearchParams(prev);
         newParams.set("q", value.trim());
+        newParams.delete("page");
         return newParams;
       });
     } else if (searchParams.has("q")) {
@@ -112,20 +402,61 @@ export default function Search({
       setSearchParams((prev) => {
         const newParams = new URLSearchParams(prev);
         newParams.delete("q");
+        newParams.delete("page");
         return newParams;
       });
     }
   };
 
-  const hasActiveFilters = textQuery.trim() !== "" || selectedTags.length > 0;
+  const hasActiveFilters =
+    hasQuery ||
+    selectedTags.length > 0 ||
+    excludedTags.length > 0 ||
+    minQuality > 0 ||
+    exact;
 
   // Prepare checkbox items for UI
   const checkboxItems = tagCounts.map(({ tag, count }) => ({
     tag,
     count,
-    checked: selectedTags.includes(tag),
+    state: selectedTags.includes(tag)
+      ? ("include" as const)
+      : excludedTags.includes(tag)
+        ? ("exclude" as const)
+        : null,
   }));
 
+  // Group the tags by taxonomy category, uncategorized ones last
+  const tagGroups = [...tagCategories, { id: "other", label: "Other" }].flatMap(
+    ({ id, label }) => {
+      const items = checkboxItems.filter(
+        ({ tag }) => (getTagCategory(tag)?.id ?? "other") === id,
+      );
+      return items.length > 0 ? [{ id, label, items }] : [];
+    },
+  );
+
+  const renderTagFilters = (limit?: number) => (
+    <div className="space-y-6">
+      {tagGroups.map(({ id, label, items }) => (
+        <CheckboxFilterGroup
+          key={id}
+          title={label}
+          items={items}
+          onChange={setTagState}
+          limit={limit}
+        />
+      ))}
+    </div>
+  );
+
+  const matchModeToggle = (
+    <TagMatchModeToggle
+      mode={tagFilter.mode}
+      onChange={(mode) => setParam("tm", mode === "all" ? mode : null)}
+    />
+  );
+
   return (
     <div className="min-h-screen flex flex-col">
       <Header onSearchChange={handleSearchChange} searchValue={textQuery} />
@@ -135,13 +466,12 @@ export default function Search({
           <div className="flex gap-6">
             {/* Desktop Sidebar */}
             <aside className="hidden lg:block w-64 shrink-0">
-              <div className="sticky top-20">
-                <CheckboxFilterGroup
-                  title="Tags"
-                  items={checkboxItems}
-                  onToggle={toggleTag}
-                  limit={15}
-                />
+              <div className="sticky top-20 max-h-[calc(100vh-6rem)] overflow-y-auto space-y-4">
+                <div className="flex items-center justify-between gap-2">
+                  <h2 className="font-semibold">Tags</h2>
+                  {matchModeToggle}
+                </div>
+                {renderTagFilters(8)}
               </div>
             </aside>
 
@@ -160,19 +490,73 @@ export default function Search({
                     <SheetHeader>
                       <SheetTitle>Filter by Tags</SheetTitle>
                     </SheetHeader>
-                    <div className="mt-6">
-                      <CheckboxFilterGroup
-                        title=""
-                        items={checkboxItems}
-                        onToggle={toggleTag}
-                      />
+                    <div className="mt-6 space-y-4">
+                      {matchModeToggle}
+                      {renderTagFilters()}
                     </div>
                   </SheetContent>
                 </Sheet>
               </div>
 
+              {/* Sorting and Quality Filter */}
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <div className="flex items-center gap-2 me-2">
+                  <Checkbox
+                    id="exact-match"
+                    checked={exact}
+                    onCheckedChange={(checked) =>
+                      setParam("exact", checked === true ? "1" : null)
+                    }
+                  />
+                  <Label
+                    htmlFor="exact-match"
+                    className="text-sm font-normal cursor-pointer"
+                  >
+                    Exact match
+                  </Label>
+                </div>
+                <Select
+                  value={minQuality > 0 ? String(minQuality) : "any"}
+                  onValueChange={(value) =>
+                    setParam("quality", value === "any" ? null : value)
+                  }
+                >
+                  <SelectTrigger size="sm" aria-label="Minimum quality">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any quality</SelectItem>
+                    {QUALITY_THRESHOLDS.map((threshold) => (
+                      <SelectItem key={threshold} value={String(threshold)}>
+                        Quality {threshold}
+                        {threshold < 100 ? "+" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={sort}
+                  onValueChange={(value) =>
+                    setParam("sort", value === defaultSort ? null : value)
+                  }
+                >
+                  <SelectTrigger size="sm" aria-label="Sort by">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_KEYS.filter(
+                      (key) => key !== "relevance" || hasQuery,
+                    ).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {SORT_LABELS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {/* Results Summary */}
-              {hasActiveFilters && (
+              {hasActiveFilters && result && (
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
                     <p className="text-sm text-muted-foreground">
@@ -190,9 +574,36 @@ export default function Search({
                     </Button>
                   </div>
 
-                  {/* Active Tag Filters */}
-                  {selectedTags.length > 0 && (
+                  {/* Query Errors */}
+                  {query.errors.length > 0 && (
+                    <ul className="text-sm text-destructive">
+                      {query.errors.map((error) => (
+                        <li key={`${error.position}-${error.message}`}>
+                          {error.message} (at character {error.position + 1})
+                        </li>
+                      ))}
+                      <li className="text-muted-foreground">
+                        Filter with author:, tag:, name: or trigger:, quote
+                        phrases and exclude terms with a leading -
+                      </li>
+                    </ul>
+                  )}
+
+                  {/* Active Query and Tag Filters */}
+                  {(structuredTerms.length > 0 ||
+                    selectedTags.length > 0 ||
+                    excludedTags.length > 0) && (
                     <div className="flex flex-wrap gap-2">
+                      {structuredTerms.map((term) => (
+                        <RemovableBadge
+                          key={`${term.start}-${term.end}`}
+                          onRemove={() =>
+                            handleSearchChange(removeQueryTerm(textQuery, term))
+                          }
+                        >
+                          {describeQueryTerm(term)}
+                        </RemovableBadge>
+                      ))}
                       {selectedTags.map((tag) => (
                         <RemovableBadge
                           key={tag}
@@ -201,6 +612,14 @@ export default function Search({
                           {tag}
                         </RemovableBadge>
                       ))}
+                      {excludedTags.map((tag) => (
+                        <RemovableBadge
+                          key={`not-${tag}`}
+                          onRemove={() => setTagState(tag, null)}
+                        >
+                          not {tag}
+                        </RemovableBadge>
+                      ))}
                     </div>
                   )}
 
@@ -209,15 +628,34 @@ export default function Search({
               )}
 
               {/* Results Grid */}
-              {filteredPackages.length > 0 ? (
-                <div className="grid gap-4 grid-cols-1">
-                  {filteredPackages.map((pkg) => (
-                    <PackageCard
-                      key={pkg.id}
-                      package={pkg}
-                      onTagClick={toggleTag}
-                    />
-                  ))}
+              {error ? (
+                <EmptyState
+                  title="Search is unavailable"
+                  description="The search index could not be loaded. Please try again later."
+                />
+              ) : !result && !initial ? (
+                <p className="py-12 text-center text-sm text-muted-foreground">
+                  Loading packages…
+                </p>
+              ) : resultCount > 0 ? (
+                <div className="space-y-6">
+                  <div className="grid gap-4 grid-cols-1">
+                    {pagePackages.map((pkg) => (
+                      <PackageCard
+                        key={pkg.id}
+                        package={pkg}
+                        matchedTrigger={matchedTriggers.get(pkg.id)}
+                        highlights={highlights.get(pkg.id)}
+                        qualityScore={scores[pkg.name]}
+                        onTagClick={toggleTag}
+                      />
+                    ))}
+                  </div>
+                  <Pagination
+                    page={page}
+                    pageCount={pageCount}
+                    pageHref={pageHref}
+                  />
                 </div>
               ) : (
                 <EmptyState
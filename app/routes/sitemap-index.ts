@@ -0,0 +1,14 @@
+import { getIndexLastUpdate } from "../services/packages";
+import { SITEMAPS, renderSitemapIndex } from "../services/sitemap";
+import { absoluteUrl } from "../services/site";
+
+export async function loader() {
+  const xml = renderSitemapIndex(
+    SITEMAPS.map((name) => absoluteUrl(`/sitemaps/${name}.xml`)),
+    await getIndexLastUpdate(),
+  );
+
+  return new Response(xml, {
+    headers: { "Content-Type": "application/xml; charset=utf-8" },
+  });
+}
@@ -0,0 +1,20 @@
+import {
+  getSitemapEntries,
+  isSitemapName,
+  renderSitemap,
+} from "../services/sitemap";
+import { absoluteUrl } from "../services/site";
+import type { Route } from "./+types/sitemap";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const name = params.file.replace(/\.xml$/, "");
+  if (!isSitemapName(name)) {
+    throw new Response("Sitemap not found", { status: 404 });
+  }
+
+  const xml = renderSitemap(await getSitemapEntries(name), absoluteUrl);
+
+  return new Response(xml, {
+    headers: { "Content-Type": "application/xml; charset=utf-8" },
+  });
+}
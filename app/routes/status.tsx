@@ -0,0 +1,202 @@
+import { CircleCheck, Tag, TriangleAlert } from "lucide-react";
+import { useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { EmptyState } from "~/components/EmptyState";
+import { Header } from "~/components/Header";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  getIndexLastUpdate,
+  getPackagesIndex,
+  getRejectedPackages,
+  getUnknownTags,
+} from "../services/packages";
+import type { Route } from "./+types/status";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Index Status - Espanso Hub" },
+    {
+      name: "description",
+      content:
+        "Package index entries rejected by validation and tags to curate",
+    },
+    // Meant for hub maintainers, not for search results
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader() {
+  const index = await getPackagesIndex();
+
+  return {
+    lastUpdate: (await getIndexLastUpdate()).toISOString(),
+    acceptedCount: index.packages.length,
+    packageCount: new Set(index.packages.map((pkg) => pkg.name)).size,
+    rejected: await getRejectedPackages(),
+    unknownTags: await getUnknownTags(),
+  };
+}
+
+export default function Status({
+  loaderData: {
+    lastUpdate,
+    acceptedCount,
+    packageCount,
+    rejected,
+    unknownTags,
+  },
+}: Route.ComponentProps) {
+  const navigate = useNavigate();
+  const [searchValue, setSearchValue] = useState("");
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header
+        searchValue={searchValue}
+        onSearchChange={setSearchValue}
+        onSearchSubmit={(searchValue) => {
+          navigate(`/search?q=${encodeURIComponent(searchValue.trim())}`);
+        }}
+      />
+
+      <main className="flex-1 bg-white">
+        <div className="content-row py-8 space-y-8">
+          <div className="space-y-2">
+            <h1 className="text-3xl md:text-4xl font-bold">Index Status</h1>
+            <p className="text-muted-foreground">
+              Index last updated on {new Date(lastUpdate).toUTCString()}.{" "}
+              {acceptedCount} package version{acceptedCount !== 1 ? "s" : ""} of{" "}
+              {packageCount} package{packageCount !== 1 ? "s" : ""} passed
+              validation.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">
+                <CircleCheck className="text-green-700" />
+                {acceptedCount} accepted
+              </Badge>
+              <Badge variant={rejected.length > 0 ? "destructive" : "outline"}>
+                <TriangleAlert />
+                {rejected.length} rejected
+              </Badge>
+              <Badge variant="outline">
+                <Tag />
+                {unknownTags.length} unknown tag
+                {unknownTags.length !== 1 ? "s" : ""}
+              </Badge>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Rejected entries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {rejected.length === 0 ? (
+                <EmptyState
+                  title="No rejected entries"
+                  description="Every entry of the package index is valid"
+                />
+              ) : (
+                <div className="border rounded overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-muted-foreground border-b">
+                      <tr>
+                        <th className="text-left font-semibold p-2">Package</th>
+                        <th className="text-left font-semibold p-2">Version</th>
+                        <th className="text-left font-semibold p-2">Field</th>
+                        <th className="text-left font-semibold p-2">Message</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rejected.flatMap(({ position, name, version, issues }) =>
+                        issues.map((issue, i) => (
+                          <tr
+                            key={`${position ?? `${name}@${version}`}-${i}`}
+                            className="border-b last:border-b-0 align-top"
+                          >
+                            <td className="p-2 font-mono text-xs">
+                              {name ?? `entry #${position}`}
+                            </td>
+                            <td className="p-2 font-mono text-xs">
+                              {version ?? "—"}
+                            </td>
+                            <td className="p-2">
+                              <code className="font-mono text-xs bg-muted rounded px-1.5 py-0.5">
+                                {issue.field}
+                              </code>
+                            </td>
+                            <td className="p-2">{issue.message}</td>
+                          </tr>
+                        )),
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Unknown tags</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Tags missing from the tag taxonomy: add them as canonical tags,
+                or as aliases of existing ones when they only differ in
+                spelling, to group them in the search filters.
+              </p>
+              {unknownTags.length === 0 ? (
+                <EmptyState
+                  title="No unknown tags"
+                  description="Every tag of the package index is in the taxonomy"
+                />
+              ) : (
+                <div className="border rounded overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-muted-foreground border-b">
+                      <tr>
+                        <th className="text-left font-semibold p-2">Tag</th>
+                        <th className="text-left font-semibold p-2">
+                          Packages
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {unknownTags.map(({ tag, packages }) => (
+                        <tr
+                          key={tag}
+                          className="border-b last:border-b-0 align-top"
+                        >
+                          <td className="p-2">
+                            <code className="font-mono text-xs bg-muted rounded px-1.5 py-0.5">
+                              {tag}
+                            </code>
+                          </td>
+                          <td className="p-2">
+                            {packages.map((name, i) => (
+                              <span key={name}>
+                                {i > 0 && ", "}
+                                <Link
+                                  to={`/${name}`}
+                                  className="font-mono text-xs hover:underline"
+                                >
+                                  {name}
+                                </Link>
+                              </span>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
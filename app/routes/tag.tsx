@@ -0,0 +1,117 @@
+import { Rss, Search } from "lucide-react";
+import { useState } from "react";
+import { Link, redirect, useNavigate } from "react-router";
+import { Header } from "~/components/Header";
+import { PackageCard } from "~/components/PackageCard";
+import { Badge } from "~/components/ui/badge";
+import { tagPath } from "~/lib/utils";
+import { feedPath } from "../services/feeds";
+import { getTagProfile, getTagRedirects } from "../services/tags";
+import type { Route } from "./+types/tag";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const profile = await getTagProfile(params.tag);
+  if (!profile) {
+    const moved = (await getTagRedirects()).get(params.tag);
+    if (moved) {
+      throw redirect(`/tag/${moved}`, 301);
+    }
+    throw new Response("Tag not found", { status: 404 });
+  }
+  return {
+    profile,
+    feedUrl: feedPath({ type: "tag", slug: profile.slug }, "atom"),
+  };
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data) {
+    return [{ title: "Tag Not Found" }];
+  }
+
+  return [
+    { title: `${data.profile.tag} packages - Espanso Hub` },
+    { name: "description", content: data.profile.description },
+  ];
+}
+
+export default function TagRoute({
+  loaderData: { profile, feedUrl },
+}: Route.ComponentProps) {
+  const navigate = useNavigate();
+  const [searchValue, setSearchValue] = useState("");
+  const { tag, description, packages, related } = profile;
+
+  const handleTagClick = (tag: string) => {
+    navigate(tagPath(tag));
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header
+        searchValue={searchValue}
+        onSearchChange={setSearchValue}
+        onSearchSubmit={(searchValue) => {
+          navigate(`/search?q=${encodeURIComponent(searchValue.trim())}`);
+        }}
+      />
+
+      <main className="flex-1 bg-white">
+        <div className="content-row py-8 space-y-8">
+          <div className="space-y-3">
+            <Link
+              to="/tags"
+              className="text-sm text-muted-foreground hover:underline"
+            >
+              All tags
+            </Link>
+            <h1 className="text-3xl md:text-4xl font-bold">{tag}</h1>
+            <p className="text-muted-foreground">{description}</p>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" asChild>
+                <Link to={`/search?t=${encodeURIComponent(tag)}`}>
+                  <Search />
+                  Search within this tag
+                </Link>
+              </Badge>
+              <Badge variant="outline" asChild>
+                <Link to={feedUrl} reloadDocument>
+                  <Rss />
+                  Feed
+                </Link>
+              </Badge>
+            </div>
+          </div>
+
+          {related.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-semibold text-muted-foreground">
+                Often used with
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                {related.map(({ slug, tag, count }) => (
+                  <Badge key={slug} variant="secondary" asChild>
+                    <Link to={`/tag/${slug}`}>
+                      {tag}
+                      <span className="text-muted-foreground">{count}</span>
+                    </Link>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+            {packages.map((pkg) => (
+              <PackageCard
+                key={pkg.id}
+                package={pkg}
+                onTagClick={handleTagClick}
+              />
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
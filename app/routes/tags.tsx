@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { Header } from "~/components/Header";
+import { EmptyState } from "~/components/EmptyState";
+import { Button } from "~/components/ui/button";
+import { getTagDirectory } from "../services/tags";
+import type { Route } from "./+types/tags";
+
+// Font sizes of the cloud, from the least to the most used tags
+const CLOUD_SIZES = ["text-sm", "text-base", "text-lg", "text-xl", "text-2xl"];
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Tags - Espanso Hub" },
+    {
+      name: "description",
+      content: "Browse espanso packages by tag",
+    },
+  ];
+}
+
+export async function loader() {
+  return { tags: await getTagDirectory() };
+}
+
+export default function Tags({ loaderData: { tags } }: Route.ComponentProps) {
+  const navigate = useNavigate();
+  const [searchValue, setSearchValue] = useState("");
+  const [order, setOrder] = useState<"name" | "count">("name");
+
+  // Sizes grow with the logarithm of the count, so a few very popular tags
+  // do not shrink every other tag to the smallest size
+  const maxCount = Math.max(1, ...tags.map((t) => t.count));
+  const sizeOf = (count: number) =>
+    CLOUD_SIZES[
+      Math.round(
+        (Math.log(count) / Math.log(Math.max(2, maxCount))) *
+          (CLOUD_SIZES.length - 1),
+      )
+    ];
+
+  const sortedTags =
+    order === "name"
+      ? tags
+      : [...tags].sort(
+          (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+        );
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header
+        searchValue={searchValue}
+        onSearchChange={setSearchValue}
+        onSearchSubmit={(searchValue) => {
+          navigate(`/search?q=${encodeURIComponent(searchValue.trim())}`);
+        }}
+      />
+
+      <main className="flex-1 bg-white">
+        <div className="content-row py-8 space-y-8">
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div className="space-y-2">
+              <h1 className="text-3xl md:text-4xl font-bold">Tags</h1>
+              <p className="text-muted-foreground">
+                {tags.length} tag{tags.length !== 1 ? "s" : ""} used by espanso
+                packages
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={order === "name" ? "default" : "outline"}
+                onClick={() => setOrder("name")}
+              >
+                A–Z
+              </Button>
+              <Button
+                size="sm"
+                variant={order === "count" ? "default" : "outline"}
+                onClick={() => setOrder("count")}
+              >
+                Most used
+              </Button>
+            </div>
+          </div>
+
+          {tags.length === 0 ? (
+            <EmptyState
+              title="No tags"
+              description="No package of the index is tagged"
+            />
+          ) : (
+            <ul className="flex flex-wrap items-baseline gap-x-6 gap-y-3">
+              {sortedTags.map(({ slug, tag, count }) => (
+                <li key={slug}>
+                  <Link
+                    to={`/tag/${slug}`}
+                    className={`${sizeOf(count)} hover:underline`}
+                  >
+                    {tag}
+                  </Link>{" "}
+                  <span className="text-xs text-muted-foreground">{count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import * as v from "valibot";
+import {
+  API_VERSION,
+  ApiPackageDetailSchema,
+  ApiPackageListSchema,
+  ApiTagListSchema,
+  type ApiPackage,
+  type ApiPackageDetail,
+  type ApiPackageList,
+  type ApiTagList,
+} from "../model/api";
+import type { Package } from "../model/packages";
+import { collectTriggers, parsePackageMatches } from "./matches";
+import {
+  fetchPackageFiles,
+  getPackageByName,
+  getPackagesIndex,
+  getVersionsForPackage,
+} from "./packages";
+import { countTags, selectLatestPerName } from "./search";
+
+const documentHeader = () => ({
+  apiVersion: API_VERSION,
+  generatedAt: new Date().toISOString(),
+});
+
+const toApiPackage = (pkg: Package): ApiPackage => ({
+  name: pkg.name,
+  author: pkg.author,
+  description: pkg.description,
+  title: pkg.title,
+  version: pkg.version,
+  archive_url: pkg.archive_url,
+  archive_sha256_url: pkg.archive_sha256_url,
+  tags: pkg.tags,
+});
+
+/**
+ * Builds /api/packages.json: the latest version of every package
+ */
+export async function getApiPackageList(): Promise<ApiPackageList> {
+  const index = await getPackagesIndex();
+  return v.parse(ApiPackageListSchema, {
+    ...documentHeader(),
+    packages: selectLatestPerName(index.packages).map(toApiPackage),
+  });
+}
+
+/**
+ * Builds /api/packages/<name>.json: every version of a package with its
+ * files and triggers
+ * @returns The document, or null if the package does not exist
+ */
+export async function getApiPackageDetail(
+  name: string,
+): Promise<ApiPackageDetail | null> {
+  const index = await getPackagesIndex();
+  const latest = await getPackageByName(name);
+  if (!latest) {
+    return null;
+  }
+
+  const versions = await getVersionsForPackage(name);
+  const packages = versions.flatMap(
+    (version) =>
+      index.packages.find((p) => p.name === name && p.version === version) ??
+      [],
+  );
+
+  const apiVersions = [];
+  for (const pkg of packages) {
+    const files = await fetchPackageFiles(pkg);
+    const { matches } = parsePackageMatches(files);
+    apiVersions.push({
+      ...toApiPackage(pkg),
+      files: Object.keys(files).sort(),
+      triggerSummary: {
+        matchCount: matches.length,
+        regexCount: matches.filter((m) => m.regex !== undefined).length,
+        triggers: collectTriggers(matches),
+      },
+    });
+  }
+
+  return v.parse(ApiPackageDetailSchema, {
+    ...documentHeader(),
+    name,
+    latestVersion: latest.version,
+    tags: latest.tags,
+    versions: apiVersions,
+  });
+}
+
+/**
+ * Builds /api/tags.json: how many packages have each tag,
+ * counting the latest version of each package
+ */
+export async function getApiTagList(): Promise<ApiTagList> {
+  const index = await getPackagesIndex();
+  return v.parse(ApiTagListSchema, {
+    ...documentHeader(),
+    tags: countTags(selectLatestPerName(index.packages)),
+  });
+}
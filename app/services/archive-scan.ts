@@ -0,0 +1,95 @@
+import type { PackagesIndex } from "../model/packages";
+import { mapWithConcurrency } from "./concurrency";
+import { collectTriggers, parsePackageMatches } from "./matches";
+import {
+  ARCHIVE_CONCURRENCY,
+  fetchPackageFiles,
+  getPackagesIndex,
+} from "./packages";
+import { computeQuality } from "./quality";
+import { selectLatestPerName } from "./search";
+
+/**
+ * What the archive of the latest version of a package tells about it
+ */
+export type PackageScan = {
+  /** Unique literal triggers */
+  triggers: string[];
+  /** Quality score, see computeQuality */
+  score: number;
+};
+
+// Scans of each package index, so that the archives of an index are scanned
+// once however many pages need them
+const scans = new WeakMap<
+  PackagesIndex,
+  Promise<Record<string, PackageScan>>
+>();
+
+async function scanPackages(
+  index: PackagesIndex,
+): Promise<Record<string, PackageScan>> {
+  const latestPackages = selectLatestPerName(index.packages);
+  console.log(`🔑 Scanning ${latestPackages.length} package archives`);
+
+  const entries = await mapWithConcurrency(
+    latestPackages,
+    ARCHIVE_CONCURRENCY,
+    async (pkg): Promise<[string, PackageScan]> => {
+      const files = await fetchPackageFiles(pkg);
+      const parsed = parsePackageMatches(files);
+      return [
+        pkg.name,
+        {
+          triggers: collectTriggers(parsed.matches),
+          score: computeQuality(pkg, files, parsed).score,
+        },
+      ];
+    },
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Scans the archive of the latest version of every package, extracting
+ * everything the site needs from it in a single pass.
+ * Archives are downloaded a few at a time, and scanned once per index.
+ * @returns Record of package names to their scan
+ */
+export async function scanLatestPackages(): Promise<
+  Record<string, PackageScan>
+> {
+  const index = await getPackagesIndex();
+  let scan = scans.get(index);
+  if (!scan) {
+    scan = scanPackages(index);
+    scans.set(index, scan);
+  }
+  return scan;
+}
+
+const mapScans = async <T>(
+  select: (scan: PackageScan) => T,
+): Promise<Record<string, T>> =>
+  Object.fromEntries(
+    Object.entries(await scanLatestPackages()).map(([name, scan]) => [
+      name,
+      select(scan),
+    ]),
+  );
+
+/**
+ * Gets the triggers of the latest version of every package
+ * @returns Record of package names to their unique triggers
+ */
+export function getLatestPackageTriggers(): Promise<Record<string, string[]>> {
+  return mapScans(({ triggers }) => triggers);
+}
+
+/**
+ * Gets the quality score of the latest version of every package
+ * @returns Record of package names to their score
+ */
+export function getLatestPackageScores(): Promise<Record<string, number>> {
+  return mapScans(({ score }) => score);
+}
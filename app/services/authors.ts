@@ -0,0 +1,87 @@
+import { slugify } from "../lib/utils";
+import { splitAuthors, type Package } from "../model/packages";
+import { getLatestPackageTriggers } from "./archive-scan";
+import { getPackagesIndex } from "./packages";
+import { countTags, selectLatestPerName, type TagCount } from "./search";
+
+/**
+ * Everything an author published, for their profile page
+ */
+export type AuthorProfile = {
+  /** URL segment of the profile, e.g. "john-doe" */
+  slug: string;
+  name: string;
+  /** Latest version of each package, sorted by title */
+  packages: Package[];
+  /** Distinct triggers across the latest version of every package */
+  triggerCount: number;
+  tags: TagCount[];
+};
+
+/**
+ * Groups the latest version of every package by author. A package by
+ * "Alice, Bob" belongs to both Alice and Bob.
+ * @returns Map of author slugs to the author name and their packages
+ */
+async function groupPackagesByAuthor(): Promise<
+  Map<string, { name: string; packages: Package[] }>
+> {
+  const index = await getPackagesIndex();
+  const byAuthor = new Map<string, { name: string; packages: Package[] }>();
+
+  selectLatestPerName(index.packages).forEach((pkg) => {
+    splitAuthors(pkg.author).forEach((name) => {
+      const slug = slugify(name);
+      if (slug === "") {
+        return;
+      }
+      const author = byAuthor.get(slug);
+      if (author) {
+        // The same author may be named twice with different spellings
+        if (!author.packages.includes(pkg)) {
+          author.packages.push(pkg);
+        }
+      } else {
+        byAuthor.set(slug, { name, packages: [pkg] });
+      }
+    });
+  });
+
+  return byAuthor;
+}
+
+/**
+ * Gets the slug of every author, for prerendering
+ */
+export async function getAuthorSlugs(): Promise<string[]> {
+  return Array.from((await groupPackagesByAuthor()).keys()).sort();
+}
+
+/**
+ * Gets the profile of an author
+ * @param slug - Slugified author name
+ * @returns The profile, or null if no package is by this author
+ */
+export async function getAuthorProfile(
+  slug: string,
+): Promise<AuthorProfile | null> {
+  const author = (await groupPackagesByAuthor()).get(slug);
+  if (!author) {
+    return null;
+  }
+
+  const triggersByPackage = await getLatestPackageTriggers();
+  const triggers = new Set(
+    author.packages.flatMap((pkg) => triggersByPackage[pkg.name] ?? []),
+  );
+
+  return {
+    slug,
+    name: author.name,
+    packages: [...author.packages].sort((a, b) =>
+      a.title.localeCompare(b.title),
+    ),
+    triggerCount: triggers.size,
+    tags: countTags(author.packages),
+  };
+}
@@ -0,0 +1,269 @@
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { defineReport } from "./reports";
+
+// Persistent cache shared by builds and the dev server
+const CACHE_DIR = process.env.CACHE_DIR || ".cache/hub";
+
+// How long a cached package index is used without checking for a newer one.
+// Set INDEX_CACHE_TTL=0 to always fetch the index (the cache is still used offline).
+const INDEX_CACHE_TTL_MS =
+  Number(process.env.INDEX_CACHE_TTL ?? 10 * 60) * 1000;
+
+type CacheKind = "index" | "hash" | "archive";
+
+// Cache hit/miss counters of this build
+const stats = defineReport<Record<CacheKind, { hits: number; misses: number }>>(
+  "cache",
+  {
+    index: { hits: 0, misses: 0 },
+    hash: { hits: 0, misses: 0 },
+    archive: { hits: 0, misses: 0 },
+  },
+  (stats) => {
+    console.log(
+      `💾 Cache: ${Object.entries(stats)
+        .map(
+          ([kind, { hits, misses }]) => `${kind} ${hits} hits/${misses} misses`,
+        )
+        .join(", ")}`,
+    );
+    return { dir: CACHE_DIR, stats };
+  },
+);
+
+/**
+ * Records a cache lookup, for the hit/miss summary
+ */
+function recordLookup(kind: CacheKind, hit: boolean) {
+  stats[kind][hit ? "hits" : "misses"]++;
+}
+
+/**
+ * Computes the hex-encoded SHA-256 digest of some data
+ */
+export async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+  const buffer =
+    typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function readCacheFile(relativePath: string): Promise<Buffer | null> {
+  try {
+    return await readFile(path.join(CACHE_DIR, relativePath));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes a cache file atomically, so an interrupted build never leaves a
+ * truncated entry behind. Write failures only disable caching.
+ */
+async function writeCacheFile(
+  relativePath: string,
+  data: string | Uint8Array,
+): Promise<void> {
+  const file = path.join(CACHE_DIR, relativePath);
+  const tempFile = `${file}.${process.pid}.tmp`;
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(tempFile, data);
+    await rename(tempFile, file);
+  } catch (error) {
+    console.warn(`Failed to write cache entry ${file}: ${error}`);
+  }
+}
+
+const toArrayBuffer = (buffer: Buffer): ArrayBuffer =>
+  buffer.buffer.slice(
+    buffer.byteOffset,
+    buffer.byteOffset + buffer.byteLength,
+  ) as ArrayBuffer;
+
+/**
+ * Directory of a package version's cached files. Names come from the index,
+ * so they are encoded to never escape the cache directory.
+ */
+const archiveDir = (name: string, version: string) =>
+  path.join("archives", encodeURIComponent(name), encodeURIComponent(version));
+
+/**
+ * Path of the pointer to the latest index fetched from a URL
+ */
+const indexPointerPath = async (url: string) =>
+  path.join("index", `${await sha256Hex(url)}.latest`);
+
+/**
+ * Gets the package index last fetched from a URL.
+ * @param url - Index URL the content was fetched from
+ * @param ignoreTtl - Use the cached index however old it is (e.g. when offline)
+ * @returns The index JSON text, or null if missing or expired
+ */
+export async function getCachedIndex(
+  url: string,
+  ignoreTtl = false,
+): Promise<string | null> {
+  const pointerPath = await indexPointerPath(url);
+
+  try {
+    const { mtimeMs } = await stat(path.join(CACHE_DIR, pointerPath));
+    if (!ignoreTtl && Date.now() - mtimeMs > INDEX_CACHE_TTL_MS) {
+      recordLookup("index", false);
+      return null;
+    }
+  } catch {
+    recordLookup("index", false);
+    return null;
+  }
+
+  const sha256 = (await readCacheFile(pointerPath))?.toString().trim();
+  const content = sha256
+    ? (await readCacheFile(path.join("index", `${sha256}.json`)))?.toString()
+    : undefined;
+
+  // Content-addressed entries must still match their key
+  const valid = content !== undefined && (await sha256Hex(content)) === sha256;
+  recordLookup("index", valid);
+  return valid ? content : null;
+}
+
+/**
+ * Stores a freshly fetched package index
+ */
+export async function cacheIndex(url: string, content: string): Promise<void> {
+  const sha256 = await sha256Hex(content);
+  await writeCacheFile(path.join("index", `${sha256}.json`), content);
+  await writeCacheFile(await indexPointerPath(url), sha256);
+}
+
+/**
+ * Gets the published SHA-256 hash of a package version.
+ * Published versions are immutable, so cached hashes never expire.
+ */
+export async function getCachedSha256(
+  name: string,
+  version: string,
+): Promise<string | null> {
+  const content = await readCacheFile(
+    path.join(archiveDir(name, version), "published.sha256"),
+  );
+  recordLookup("hash", content !== null);
+  return content ? content.toString().trim() : null;
+}
+
+export async function cacheSha256(
+  name: string,
+  version: string,
+  sha256: string,
+): Promise<void> {
+  await writeCacheFile(
+    path.join(archiveDir(name, version), "published.sha256"),
+    sha256,
+  );
+}
+
+/**
+ * Gets a package archive by name, version and content hash.
+ * Entries that no longer match their hash are ignored.
+ */
+export async function getCachedArchive(
+  name: string,
+  version: string,
+  sha256: string,
+): Promise<ArrayBuffer | null> {
+  const content = await readCacheFile(
+    path.join(archiveDir(name, version), `${sha256}.zip`),
+  );
+  const buffer = content ? toArrayBuffer(content) : null;
+  const valid = buffer !== null && (await sha256Hex(buffer)) === sha256;
+  recordLookup("archive", valid);
+  return valid ? buffer : null;
+}
+
+/**
+ * Stores a package archive. Only archives matching their published hash
+ * should be cached, as the hash is the cache key.
+ */
+export async function cacheArchive(
+  name: string,
+  version: string,
+  sha256: string,
+  buffer: ArrayBuffer,
+): Promise<void> {
+  await writeCacheFile(
+    path.join(archiveDir(name, version), `${sha256}.zip`),
+    new Uint8Array(buffer),
+  );
+}
+
+const UNVERIFIED_ARCHIVE = "unverified.zip";
+
+/**
+ * Gets a package archive without a published hash, as downloaded by this
+ * build process. Nothing can tell whether older copies are still the
+ * published archive, so they are ignored.
+ */
+export async function getCachedUnverifiedArchive(
+  name: string,
+  version: string,
+): Promise<ArrayBuffer | null> {
+  const file = path.join(archiveDir(name, version), UNVERIFIED_ARCHIVE);
+  try {
+    const { mtimeMs } = await stat(path.join(CACHE_DIR, file));
+    if (mtimeMs < performance.timeOrigin) {
+      recordLookup("archive", false);
+      return null;
+    }
+  } catch {
+    recordLookup("archive", false);
+    return null;
+  }
+
+  const content = await readCacheFile(file);
+  recordLookup("archive", content !== null);
+  return content ? toArrayBuffer(content) : null;
+}
+
+/**
+ * Stores a package archive without a published hash, so that prerendered
+ * pages reuse the copy downloaded ahead of rendering
+ */
+export async function cacheUnverifiedArchive(
+  name: string,
+  version: string,
+  buffer: ArrayBuffer,
+): Promise<void> {
+  await writeCacheFile(
+    path.join(archiveDir(name, version), UNVERIFIED_ARCHIVE),
+    new Uint8Array(buffer),
+  );
+}
+
+const FIRST_SEEN_PATH = path.join("feeds", "first-seen.json");
+
+/**
+ * Gets when each package version was first seen in the index, as stored by
+ * the previous build. Keyed by package id, values are ISO dates.
+ * @returns The snapshot, or null if no build stored one yet
+ */
+export async function getCachedFirstSeen(): Promise<Record<
+  string,
+  string
+> | null> {
+  const content = await readCacheFile(FIRST_SEEN_PATH);
+  try {
+    return content ? JSON.parse(content.toString()) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function cacheFirstSeen(
+  firstSeen: Record<string, string>,
+): Promise<void> {
+  await writeCacheFile(FIRST_SEEN_PATH, JSON.stringify(firstSeen));
+}
@@ -0,0 +1,52 @@
+/**
+ * Maps items with an async function, running at most `limit` calls at a time.
+ * @returns Results in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker),
+  );
+  return results;
+}
+
+/**
+ * Calls an async function until it succeeds, waiting longer after each failure
+ * @param fn - Function to call
+ * @param retries - Number of attempts after the first one
+ * @param label - Describes the operation in retry warnings
+ * @throws The last error if every attempt fails
+ */
+export async function withRetries<T>(
+  fn: () => Promise<T>,
+  retries: number,
+  label: string,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries) {
+        throw error;
+      }
+      const delay = 500 * 2 ** attempt;
+      console.warn(
+        `⚠️ ${label} failed (${error}), retrying in ${delay}ms (${attempt + 1}/${retries})`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
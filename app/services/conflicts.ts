@@ -0,0 +1,142 @@
+import { getLatestPackageTriggers } from "./archive-scan";
+
+/**
+ * A trigger defined by more than one package
+ */
+export type TriggerConflict = {
+  trigger: string;
+  packages: string[];
+};
+
+/**
+ * Conflict summary of a single package, used by the site-wide report
+ */
+export type PackageConflictSummary = {
+  name: string;
+  triggerCount: number;
+  conflicts: TriggerConflict[];
+  conflictsWith: string[];
+};
+
+export type ConflictReport = {
+  packages: PackageConflictSummary[];
+  triggers: TriggerConflict[];
+};
+
+/**
+ * Groups package names by the triggers they define
+ * @param triggersByPackage - Record of package names to their triggers
+ * @returns Map of triggers to the sorted names of the packages defining them
+ */
+function groupPackagesByTrigger(
+  triggersByPackage: Record<string, string[]>,
+): Map<string, string[]> {
+  const byTrigger = new Map<string, string[]>();
+
+  Object.entries(triggersByPackage).forEach(([name, triggers]) => {
+    new Set(triggers).forEach((trigger) => {
+      byTrigger.set(trigger, [...(byTrigger.get(trigger) || []), name]);
+    });
+  });
+
+  byTrigger.forEach((names) => names.sort());
+  return byTrigger;
+}
+
+/**
+ * Looks up which of the given triggers are defined by packages other than `name`
+ */
+function conflictsAgainst(
+  name: string,
+  triggers: string[],
+  byTrigger: Map<string, string[]>,
+): TriggerConflict[] {
+  return Array.from(new Set(triggers))
+    .map((trigger) => ({
+      trigger,
+      packages: (byTrigger.get(trigger) || []).filter((n) => n !== name),
+    }))
+    .filter((conflict) => conflict.packages.length > 0)
+    .sort((a, b) => a.trigger.localeCompare(b.trigger));
+}
+
+/**
+ * Finds the triggers of a package that are also defined by other packages
+ * @param name - Name of the package being checked
+ * @param triggers - Triggers of the package being checked
+ * @param triggersByPackage - Record of package names to their triggers
+ * @returns Conflicts sorted by trigger, listing only the other packages
+ */
+export function findPackageConflicts(
+  name: string,
+  triggers: string[],
+  triggersByPackage: Record<string, string[]>,
+): TriggerConflict[] {
+  return conflictsAgainst(
+    name,
+    triggers,
+    groupPackagesByTrigger(triggersByPackage),
+  );
+}
+
+/**
+ * Computes every trigger collision across packages
+ * @param triggersByPackage - Record of package names to their triggers
+ * @returns Packages sorted by number of conflicting triggers (descending) and
+ * triggers sorted by number of packages defining them (descending)
+ */
+export function computeConflictReport(
+  triggersByPackage: Record<string, string[]>,
+): ConflictReport {
+  const byTrigger = groupPackagesByTrigger(triggersByPackage);
+
+  const triggers = Array.from(byTrigger.entries())
+    .filter(([, names]) => names.length > 1)
+    .map(([trigger, names]) => ({ trigger, packages: names }))
+    .sort(
+      (a, b) =>
+        b.packages.length - a.packages.length ||
+        a.trigger.localeCompare(b.trigger),
+    );
+
+  const packages = Object.entries(triggersByPackage)
+    .map(([name, packageTriggers]) => {
+      const conflicts = conflictsAgainst(name, packageTriggers, byTrigger);
+      return {
+        name,
+        triggerCount: new Set(packageTriggers).size,
+        conflicts,
+        conflictsWith: Array.from(
+          new Set(conflicts.flatMap((c) => c.packages)),
+        ).sort(),
+      };
+    })
+    .filter((summary) => summary.conflicts.length > 0)
+    .sort(
+      (a, b) =>
+        b.conflicts.length - a.conflicts.length || a.name.localeCompare(b.name),
+    );
+
+  return { packages, triggers };
+}
+
+/**
+ * Gets the conflicts of a package against the latest version of every other package
+ * @param name - Name of the package being checked
+ * @param triggers - Triggers of the package (any version of it)
+ */
+export async function getPackageConflicts(
+  name: string,
+  triggers: string[],
+): Promise<TriggerConflict[]> {
+  const triggersByPackage = await getLatestPackageTriggers();
+  return findPackageConflicts(name, triggers, triggersByPackage);
+}
+
+/**
+ * Gets the site-wide conflict report for the latest version of every package
+ */
+export async function getConflictReport(): Promise<ConflictReport> {
+  const triggersByPackage = await getLatestPackageTriggers();
+  return computeConflictReport(triggersByPackage);
+}
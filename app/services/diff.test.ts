@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import type { PackageMatch } from "../model/matches";
+import {
+  diffFiles,
+  diffLines,
+  diffMatches,
+  toHunks,
+  type DiffLine,
+} from "./diff";
+
+const lines = (...texts: string[]) => texts.map((text) => `${text}\n`).join("");
+
+// Rebuilds both texts from a diff, one line each
+const sides = (diff: DiffLine[]) => ({
+  old: diff.filter((l) => l.type !== "added").map((l) => l.text),
+  new: diff.filter((l) => l.type !== "removed").map((l) => l.text),
+});
+
+const changes = (diff: DiffLine[]) =>
+  diff.filter((l) => l.type !== "context").length;
+
+describe("diffLines", () => {
+  it("tags and numbers the lines of both texts", () => {
+    expect(diffLines(lines("a", "b", "c"), lines("a", "x", "c"))).toEqual([
+      { type: "context", text: "a", oldNumber: 1, newNumber: 1 },
+      { type: "removed", text: "b", oldNumber: 2 },
+      { type: "added", text: "x", newNumber: 2 },
+      { type: "context", text: "c", oldNumber: 3, newNumber: 3 },
+    ]);
+  });
+
+  it("finds a shortest edit script", () => {
+    const oldText = lines(..."abcabba");
+    const newText = lines(..."cbabac");
+    const diff = diffLines(oldText, newText);
+
+    expect(sides(diff)).toEqual({
+      old: [..."abcabba"],
+      new: [..."cbabac"],
+    });
+    expect(changes(diff)).toBe(5);
+  });
+
+  it("ignores line endings and the final newline", () => {
+    expect(diffLines("a\r\nb\r\n", "a\nb")).toEqual([
+      { type: "context", text: "a", oldNumber: 1, newNumber: 1 },
+      { type: "context", text: "b", oldNumber: 2, newNumber: 2 },
+    ]);
+  });
+
+  it("diffs from and to an empty text", () => {
+    expect(diffLines("", lines("a"))).toEqual([
+      { type: "added", text: "a", newNumber: 1 },
+    ]);
+    expect(diffLines(lines("a"), "")).toEqual([
+      { type: "removed", text: "a", oldNumber: 1 },
+    ]);
+  });
+
+  it("replaces rewritten texts as a whole", () => {
+    const size = 1500;
+    const oldLines = Array.from({ length: size }, (_, i) => `old ${i}`);
+    const newLines = Array.from({ length: size }, (_, i) => `new ${i}`);
+    const diff = diffLines(lines(...oldLines), lines(...newLines));
+
+    expect(diff.map((l) => l.text)).toEqual([...oldLines, ...newLines]);
+    expect(changes(diff)).toBe(2 * size);
+  });
+});
+
+describe("toHunks", () => {
+  const numbered = (count: number) =>
+    Array.from({ length: count }, (_, i) => String(i + 1));
+
+  it("keeps context around each change", () => {
+    const oldLines = numbered(20);
+    const newLines = oldLines.map((l) => (l === "10" ? "ten" : l));
+    const hunks = toHunks(diffLines(lines(...oldLines), lines(...newLines)));
+
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0].oldStart).toBe(7);
+    expect(hunks[0].newStart).toBe(7);
+    expect(hunks[0].lines.map((l) => l.text)).toEqual([
+      ..."789",
+      "10",
+      "ten",
+      "11",
+      "12",
+      "13",
+    ]);
+  });
+
+  it("merges changes whose contexts touch", () => {
+    const oldLines = numbered(20);
+    const newLines = oldLines.filter((l) => l !== "5" && l !== "11");
+
+    expect(
+      toHunks(diffLines(lines(...oldLines), lines(...newLines))),
+    ).toHaveLength(1);
+  });
+
+  it("splits distant changes", () => {
+    const oldLines = numbered(30);
+    const newLines = oldLines.filter((l) => l !== "5" && l !== "25");
+    const hunks = toHunks(diffLines(lines(...oldLines), lines(...newLines)));
+
+    expect(hunks.map(({ oldStart, newStart }) => [oldStart, newStart])).toEqual(
+      [
+        [2, 2],
+        [22, 21],
+      ],
+    );
+  });
+
+  it("has no hunks without changes", () => {
+    expect(toHunks(diffLines(lines("a"), lines("a")))).toEqual([]);
+  });
+});
+
+describe("diffFiles", () => {
+  it("compares every file of both versions, sorted by path", () => {
+    const diff = diffFiles(
+      {
+        "package.yml": lines("a", "b"),
+        "removed.yml": lines("gone"),
+        "same.yml": lines("same"),
+      },
+      {
+        "package.yml": lines("a", "c", "d"),
+        "added.yml": lines("new"),
+        "same.yml": lines("same"),
+      },
+    );
+
+    expect(
+      diff.map(({ file, status, additions, deletions }) => ({
+        file,
+        status,
+        additions,
+        deletions,
+      })),
+    ).toEqual([
+      { file: "added.yml", status: "added", additions: 1, deletions: 0 },
+      { file: "package.yml", status: "modified", additions: 2, deletions: 1 },
+      { file: "removed.yml", status: "removed", additions: 0, deletions: 1 },
+      { file: "same.yml", status: "unchanged", additions: 0, deletions: 0 },
+    ]);
+    expect(diff[3].hunks).toEqual([]);
+  });
+});
+
+describe("diffMatches", () => {
+  const packageMatch = (
+    triggers: string[],
+    overrides: Partial<PackageMatch> = {},
+  ): PackageMatch => ({
+    id: `package.yml#${triggers.join()}`,
+    file: "package.yml",
+    triggers,
+    expansionType: "replace",
+    expansion: "x",
+    vars: [],
+    word: false,
+    propagateCase: false,
+    ...overrides,
+  });
+
+  it("identifies matches by their triggers", () => {
+    const kept = packageMatch([":kept"]);
+    const removed = packageMatch([":removed"]);
+    const added = packageMatch([":added"]);
+
+    expect(diffMatches([kept, removed], [kept, added])).toEqual({
+      added: [added],
+      removed: [removed],
+      changed: [],
+    });
+  });
+
+  it("identifies regex matches by their regex", () => {
+    const before = packageMatch([], { regex: ":d(\\d+)" });
+    const after = packageMatch([], { regex: ":d(\\d+)", expansion: "y" });
+
+    expect(diffMatches([before], [after])).toEqual({
+      added: [],
+      removed: [],
+      changed: [{ before, after }],
+    });
+  });
+
+  it("reports matches behaving differently", () => {
+    const before = packageMatch([":a"]);
+    const after = packageMatch([":a"], { word: true });
+    const relabeled = packageMatch([":b"], { label: "B" });
+
+    expect(
+      diffMatches([before, packageMatch([":b"])], [after, relabeled]).changed,
+    ).toEqual([{ before, after }]);
+  });
+});
@@ -0,0 +1,295 @@
+import type { PackageMatch } from "../model/matches";
+
+// Beyond this many edits the files are considered fully rewritten, which keeps
+// the Myers trace (quadratic in the number of edits) within a sane memory budget
+const MAX_EDIT_DISTANCE = 2000;
+
+export type DiffLine = {
+  type: "context" | "added" | "removed";
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+};
+
+export type DiffHunk = {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+};
+
+export type FileStatus = "added" | "removed" | "modified" | "unchanged";
+
+export type FileDiff = {
+  file: string;
+  status: FileStatus;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+};
+
+type DiffOp = { type: DiffLine["type"]; text: string };
+
+const splitLines = (text: string): string[] =>
+  text === "" ? [] : text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+
+/**
+ * Computes the shortest edit script between two line arrays (Myers' algorithm)
+ * @returns Operations in order, or null if the edit distance exceeds MAX_EDIT_DISTANCE
+ */
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    // Keep only the diagonals reachable so far: -d..d
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Walks the Myers trace back from the end to rebuild the edit script
+ */
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "context", text: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: "added", text: b[--y] });
+    } else {
+      ops.push({ type: "removed", text: a[--x] });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ type: "context", text: a[--x] });
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Computes a line-level diff between two texts
+ * @param oldText - Previous content
+ * @param newText - Current content
+ * @returns Every line of both texts, tagged and numbered
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix never take part in the edit script
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map((text) => ({ type: "removed" as const, text })),
+    ...middleB.map((text) => ({ type: "added" as const, text })),
+  ];
+
+  const ops: DiffOp[] = [
+    ...a.slice(0, prefix).map((text) => ({ type: "context" as const, text })),
+    ...middle,
+    ...a
+      .slice(a.length - suffix)
+      .map((text) => ({ type: "context" as const, text })),
+  ];
+
+  let oldNumber = 1;
+  let newNumber = 1;
+  return ops.map((op) => {
+    switch (op.type) {
+      case "context":
+        return { ...op, oldNumber: oldNumber++, newNumber: newNumber++ };
+      case "removed":
+        return { ...op, oldNumber: oldNumber++ };
+      case "added":
+        return { ...op, newNumber: newNumber++ };
+    }
+  });
+}
+
+/**
+ * Groups the changed lines of a diff into hunks surrounded by some context
+ * @param lines - Output of diffLines
+ * @param context - Number of unchanged lines kept around each change
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] = [];
+  let lastChange = -Infinity;
+
+  lines.forEach((line, i) => {
+    if (line.type === "context") {
+      return;
+    }
+
+    const start = Math.max(0, i - context);
+    if (current.length > 0 && start <= lastChange + context + 1) {
+      // Close enough to the previous change: extend the current hunk
+      current.push(...lines.slice(lastChange + 1, i + 1));
+    } else {
+      if (current.length > 0) {
+        current.push(...lines.slice(lastChange + 1, lastChange + 1 + context));
+        hunks.push(toHunk(current));
+      }
+      current = lines.slice(start, i + 1);
+    }
+    lastChange = i;
+  });
+
+  if (current.length > 0) {
+    current.push(...lines.slice(lastChange + 1, lastChange + 1 + context));
+    hunks.push(toHunk(current));
+  }
+
+  return hunks;
+}
+
+function toHunk(lines: DiffLine[]): DiffHunk {
+  return {
+    oldStart: lines.find((l) => l.oldNumber)?.oldNumber ?? 0,
+    newStart: lines.find((l) => l.newNumber)?.newNumber ?? 0,
+    lines,
+  };
+}
+
+/**
+ * Compares two package archives file by file
+ * @param oldFiles - Files of the previous version, as returned by fetchPackageFiles
+ * @param newFiles - Files of the current version
+ * @returns One entry per file present in either version, sorted by path
+ */
+export function diffFiles(
+  oldFiles: Record<string, string>,
+  newFiles: Record<string, string>,
+): FileDiff[] {
+  const fileNames = Array.from(
+    new Set([...Object.keys(oldFiles), ...Object.keys(newFiles)]),
+  ).sort();
+
+  return fileNames.map((file) => {
+    const oldText = oldFiles[file];
+    const newText = newFiles[file];
+    const status: FileStatus =
+      oldText === undefined
+        ? "added"
+        : newText === undefined
+          ? "removed"
+          : oldText === newText
+            ? "unchanged"
+            : "modified";
+
+    if (status === "unchanged") {
+      return { file, status, additions: 0, deletions: 0, hunks: [] };
+    }
+
+    const lines = diffLines(oldText ?? "", newText ?? "");
+    return {
+      file,
+      status,
+      additions: lines.filter((l) => l.type === "added").length,
+      deletions: lines.filter((l) => l.type === "removed").length,
+      hunks: toHunks(lines),
+    };
+  });
+}
+
+export type ChangedMatch = {
+  before: PackageMatch;
+  after: PackageMatch;
+};
+
+export type MatchesDiff = {
+  added: PackageMatch[];
+  removed: PackageMatch[];
+  changed: ChangedMatch[];
+};
+
+// Matches are identified across versions by their triggers (or regex)
+const matchKey = (m: PackageMatch): string =>
+  m.triggers.length > 0 ? m.triggers.join("\u0000") : `regex:${m.regex}`;
+
+// Fields compared to tell whether a match behaves differently
+const matchBehavior = (m: PackageMatch): string =>
+  JSON.stringify([
+    m.expansionType,
+    m.expansion,
+    m.vars,
+    m.word,
+    m.propagateCase,
+    m.regex,
+  ]);
+
+/**
+ * Compares the matches of two package versions
+ * @param oldMatches - Matches of the previous version
+ * @param newMatches - Matches of the current version
+ */
+export function diffMatches(
+  oldMatches: PackageMatch[],
+  newMatches: PackageMatch[],
+): MatchesDiff {
+  const oldByKey = new Map(oldMatches.map((m) => [matchKey(m), m]));
+  const newByKey = new Map(newMatches.map((m) => [matchKey(m), m]));
+
+  return {
+    added: newMatches.filter((m) => !oldByKey.has(matchKey(m))),
+    removed: oldMatches.filter((m) => !newByKey.has(matchKey(m))),
+    changed: newMatches.flatMap((after) => {
+      const before = oldByKey.get(matchKey(after));
+      return before && matchBehavior(before) !== matchBehavior(after)
+        ? [{ before, after }]
+        : [];
+    }),
+  };
+}
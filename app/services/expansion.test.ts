@@ -0,0 +1,193 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { MatchVar, PackageMatch } from "../model/matches";
+import {
+  compileMatches,
+  formatDate,
+  placeholder,
+  renderExpansion,
+  typeCharacter,
+} from "./expansion";
+
+const packageMatch = (overrides: Partial<PackageMatch>): PackageMatch => ({
+  id: "package.yml#0",
+  file: "package.yml",
+  triggers: [],
+  expansionType: "replace",
+  expansion: "",
+  vars: [],
+  word: false,
+  propagateCase: false,
+  ...overrides,
+});
+
+// Types `input` one character at a time, as the playground does
+const typeText = (
+  input: string,
+  matches: PackageMatch[],
+  globalVars: MatchVar[] = [],
+) => {
+  const compiled = compileMatches(matches);
+  return [...input].reduce(
+    (text, char) => typeCharacter(text, char, compiled, globalVars).text,
+    "",
+  );
+};
+
+describe("formatDate", () => {
+  // Tuesday, March 5th 2024, 14:07:09 local time
+  const date = new Date(2024, 2, 5, 14, 7, 9);
+
+  it.each([
+    ["%Y-%m-%d", "2024-03-05"],
+    ["%y", "24"],
+    ["%e", " 5"],
+    ["%H:%M:%S", "14:07:09"],
+    ["%I %p", "02 PM"],
+    ["%A %a", "Tuesday Tue"],
+    ["%B %b %h", "March Mar Mar"],
+    ["%j", "065"],
+    ["%u %w", "2 2"],
+    ["%D", "03/05/24"],
+    ["%F %T", "2024-03-05 14:07:09"],
+    ["%R", "14:07"],
+    ["100%%", "100%"],
+  ])("formats %s", (format, expected) => {
+    expect(formatDate(date, format)).toBe(expected);
+  });
+
+  it("formats the Unix timestamp", () => {
+    expect(formatDate(date, "%s")).toBe(
+      String(Math.floor(date.getTime() / 1000)),
+    );
+  });
+
+  it("numbers Sunday 7 with %u and 0 with %w", () => {
+    expect(formatDate(new Date(2024, 2, 10), "%u %w")).toBe("7 0");
+  });
+
+  it("shows midnight as 12 AM", () => {
+    expect(formatDate(new Date(2024, 2, 5, 0, 30), "%I:%M %p")).toBe(
+      "12:30 AM",
+    );
+  });
+
+  it("keeps unsupported specifiers", () => {
+    expect(formatDate(date, "%Q %Y")).toBe("%Q 2024");
+  });
+});
+
+describe("renderExpansion", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("removes the cursor hint", () => {
+    expect(renderExpansion(packageMatch({ expansion: "<b>$|$</b>" }), [])).toBe(
+      "<b></b>",
+    );
+  });
+
+  it("evaluates variables in order, global ones first", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 2, 5, 14, 7, 9));
+
+    const globalVars: MatchVar[] = [
+      { name: "name", type: "echo", params: { echo: "World" } },
+    ];
+    const m = packageMatch({
+      expansion: "{{greeting}} on {{tomorrow}}",
+      vars: [
+        { name: "greeting", type: "echo", params: { echo: "Hello {{name}}" } },
+        {
+          name: "tomorrow",
+          type: "date",
+          params: { format: "%F", offset: 86400 },
+        },
+      ],
+    });
+
+    expect(renderExpansion(m, globalVars)).toBe("Hello World on 2024-03-06");
+  });
+
+  it("never runs variables reading the system", () => {
+    const m = packageMatch({
+      expansion: "{{output}}",
+      vars: [{ name: "output", type: "shell", params: { cmd: "whoami" } }],
+    });
+
+    expect(renderExpansion(m, [])).toBe(placeholder("shell output"));
+  });
+
+  it("fills regex groups and keeps unknown placeholders", () => {
+    const m = packageMatch({ expansion: "{{count}} {{unknown}}" });
+
+    expect(renderExpansion(m, [], { count: "3" })).toBe("3 {{unknown}}");
+  });
+});
+
+describe("typeCharacter", () => {
+  it("expands a trigger once it is typed", () => {
+    const m = packageMatch({ triggers: [":hi"], expansion: "Hello" });
+    const compiled = compileMatches([m]);
+
+    expect(typeCharacter("say :h", "i", compiled, [])).toEqual({
+      text: "say Hello",
+      expanded: { trigger: ":hi", match: m },
+    });
+    expect(typeCharacter("say :", "h", compiled, [])).toEqual({
+      text: "say :h",
+    });
+  });
+
+  it("leaves no cursor hint in the text", () => {
+    const m = packageMatch({ triggers: [":b"], expansion: "**$|$**" });
+
+    expect(typeText("x :b", [m])).toBe("x ****");
+  });
+
+  it("prefers the longest trigger", () => {
+    const matches = [
+      packageMatch({ triggers: ["ab"], expansion: "short" }),
+      packageMatch({ triggers: [":ab"], expansion: "long" }),
+    ];
+
+    expect(typeText(":ab", matches)).toBe("long");
+  });
+
+  it("expands word triggers on a separator, after a word boundary", () => {
+    const m = packageMatch({ triggers: ["teh"], expansion: "the", word: true });
+
+    expect(typeText("teh", [m])).toBe("teh");
+    expect(typeText("see teh.", [m])).toBe("see the.");
+    expect(typeText("wteh ", [m])).toBe("wteh ");
+  });
+
+  it("propagates the case of the typed trigger", () => {
+    const m = packageMatch({
+      triggers: ["alh"],
+      expansion: "although",
+      word: true,
+      propagateCase: true,
+    });
+
+    expect(typeText("alh ", [m])).toBe("although ");
+    expect(typeText("Alh ", [m])).toBe("Although ");
+    expect(typeText("ALH ", [m])).toBe("ALTHOUGH ");
+    expect(typeText("aLh ", [m])).toBe("aLh ");
+  });
+
+  it("only accepts the exact case without propagate_case", () => {
+    const m = packageMatch({ triggers: [":hi"], expansion: "Hello" });
+
+    expect(typeText(":HI", [m])).toBe(":HI");
+  });
+
+  it("expands regex triggers with their named groups", () => {
+    const m = packageMatch({
+      regex: ":rep\\((?P<text>\\w+)\\)",
+      expansion: "{{text}}{{text}}",
+    });
+
+    expect(typeText("a :rep(ab)", [m])).toBe("a abab");
+  });
+});
@@ -0,0 +1,345 @@
+import { match } from "ts-pattern";
+import type { MatchVar, PackageMatch } from "../model/matches";
+
+// Characters espanso treats as word boundaries by default
+const WORD_SEPARATORS = new Set([
+  " ",
+  ",",
+  ".",
+  "?",
+  "!",
+  ";",
+  ")",
+  "]",
+  "}",
+  ">",
+  '"',
+  "'",
+  "\n",
+  "\r",
+  "\t",
+]);
+
+// espanso only feeds the last typed characters to regex triggers
+const REGEX_BUFFER_SIZE = 50;
+
+// Cursor position hint, meaningless outside of a real editor
+const CURSOR_HINT = "$|$";
+
+type CaseStyle = "original" | "capitalize" | "uppercase";
+
+/**
+ * A match with its regex trigger (if any) compiled for the browser
+ */
+export type CompiledMatch = {
+  match: PackageMatch;
+  regex?: RegExp;
+};
+
+/**
+ * Result of typing a single character
+ */
+export type KeystrokeResult = {
+  text: string;
+  expanded?: { trigger: string; match: PackageMatch };
+};
+
+type Candidate = {
+  match: PackageMatch;
+  start: number;
+  typed: string;
+  caseStyle: CaseStyle;
+  groups: Record<string, string>;
+  suffix: string;
+};
+
+export function isWordSeparator(char: string): boolean {
+  return WORD_SEPARATORS.has(char);
+}
+
+/**
+ * Compiles the regex triggers of the given matches.
+ * espanso uses Rust regex syntax, so named groups `(?P<name>...)` are rewritten
+ * to the JavaScript flavour. Regexes that still fail to compile are dropped.
+ */
+export function compileMatches(matches: PackageMatch[]): CompiledMatch[] {
+  return matches.flatMap((m) => {
+    if (!m.regex) {
+      return [{ match: m }];
+    }
+
+    try {
+      const source = m.regex.replace(/\(\?P</g, "(?<");
+      return [{ match: m, regex: new RegExp(`(?:${source})$`) }];
+    } catch (error) {
+      console.warn(`Unsupported regex trigger ${m.regex}: ${error}`);
+      return m.triggers.length > 0 ? [{ match: m }] : [];
+    }
+  });
+}
+
+/**
+ * Lists the typed forms accepted for a trigger.
+ * With `propagate_case`, espanso also accepts the capitalized and uppercase forms.
+ */
+function triggerVariants(
+  trigger: string,
+  propagateCase: boolean,
+): Array<{ typed: string; caseStyle: CaseStyle }> {
+  const variants: Array<{ typed: string; caseStyle: CaseStyle }> = [
+    { typed: trigger, caseStyle: "original" },
+  ];
+
+  if (propagateCase) {
+    const capitalized = trigger.replace(/\p{L}/u, (c) => c.toUpperCase());
+    const uppercase = trigger.toUpperCase();
+    if (capitalized !== trigger) {
+      variants.push({ typed: capitalized, caseStyle: "capitalize" });
+    }
+    if (uppercase !== trigger && uppercase !== capitalized) {
+      variants.push({ typed: uppercase, caseStyle: "uppercase" });
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Finds the matches fired by typing `char` after `text`
+ */
+function findCandidates(
+  text: string,
+  char: string,
+  compiled: CompiledMatch[],
+): Candidate[] {
+  const next = text + char;
+  const candidates: Candidate[] = [];
+
+  compiled.forEach(({ match: m, regex }) => {
+    m.triggers.forEach((trigger) => {
+      triggerVariants(trigger, m.propagateCase).forEach(
+        ({ typed, caseStyle }) => {
+          if (!m.word) {
+            if (next.endsWith(typed)) {
+              const start = next.length - typed.length;
+              candidates.push({
+                match: m,
+                start,
+                typed,
+                caseStyle,
+                groups: {},
+                suffix: "",
+              });
+            }
+            return;
+          }
+
+          // Word triggers fire once a separator follows them, and only when
+          // they are not the tail of a longer word
+          const start = text.length - typed.length;
+          if (
+            isWordSeparator(char) &&
+            text.endsWith(typed) &&
+            (start === 0 || isWordSeparator(text[start - 1]))
+          ) {
+            candidates.push({
+              match: m,
+              start,
+              typed,
+              caseStyle,
+              groups: {},
+              suffix: char,
+            });
+          }
+        },
+      );
+    });
+
+    if (regex) {
+      const buffer = next.slice(-REGEX_BUFFER_SIZE);
+      const result = regex.exec(buffer);
+      if (result && result[0].length > 0) {
+        candidates.push({
+          match: m,
+          start: next.length - result[0].length,
+          typed: result[0],
+          caseStyle: "original",
+          groups: { ...result.groups },
+          suffix: "",
+        });
+      }
+    }
+  });
+
+  return candidates;
+}
+
+const pad = (n: number, width = 2, fill = "0") =>
+  String(n).padStart(width, fill);
+
+/**
+ * Formats a date with the strftime specifiers supported by espanso's date variable
+ */
+export function formatDate(date: Date, format: string): string {
+  const dayOfYear = Math.floor(
+    (date.getTime() - new Date(date.getFullYear(), 0, 0).getTime()) / 86400000,
+  );
+  const hours12 = date.getHours() % 12 || 12;
+
+  return format.replace(/%([a-zA-Z%])/g, (specifier, code: string) =>
+    match(code)
+      .with("Y", () => String(date.getFullYear()))
+      .with("y", () => pad(date.getFullYear() % 100))
+      .with("m", () => pad(date.getMonth() + 1))
+      .with("d", () => pad(date.getDate()))
+      .with("e", () => pad(date.getDate(), 2, " "))
+      .with("H", () => pad(date.getHours()))
+      .with("I", () => pad(hours12))
+      .with("M", () => pad(date.getMinutes()))
+      .with("S", () => pad(date.getSeconds()))
+      .with("p", () => (date.getHours() < 12 ? "AM" : "PM"))
+      .with("A", () => date.toLocaleString("en-US", { weekday: "long" }))
+      .with("a", () => date.toLocaleString("en-US", { weekday: "short" }))
+      .with("B", () => date.toLocaleString("en-US", { month: "long" }))
+      .with("b", "h", () => date.toLocaleString("en-US", { month: "short" }))
+      .with("j", () => pad(dayOfYear, 3))
+      .with("u", () => String(date.getDay() || 7))
+      .with("w", () => String(date.getDay()))
+      .with("s", () => String(Math.floor(date.getTime() / 1000)))
+      .with("D", () => formatDate(date, "%m/%d/%y"))
+      .with("F", () => formatDate(date, "%Y-%m-%d"))
+      .with("T", () => formatDate(date, "%H:%M:%S"))
+      .with("R", () => formatDate(date, "%H:%M"))
+      .with("%", () => "%")
+      .otherwise(() => specifier),
+  );
+}
+
+/**
+ * Replaces `{{name}}` (and `{{name.field}}`) placeholders with known values.
+ * Unknown placeholders are left untouched, as espanso would fail on them.
+ */
+function interpolate(template: string, values: Map<string, string>): string {
+  return template.replace(
+    /\{\{\s*([\w-]+)(?:\.[\w-]+)?\s*\}\}/g,
+    (placeholder, name: string) => values.get(name) ?? placeholder,
+  );
+}
+
+/**
+ * Placeholder shown in place of values that cannot be computed in the browser
+ */
+export function placeholder(label: string): string {
+  return `⟨${label}⟩`;
+}
+
+/**
+ * Evaluates a variable. Variables reading the system (shell, script,
+ * clipboard...) are never executed and render a placeholder instead.
+ */
+function evaluateVar(matchVar: MatchVar, values: Map<string, string>): string {
+  const params = matchVar.params ?? {};
+  const stringParam = (key: string): string =>
+    typeof params[key] === "string" || typeof params[key] === "number"
+      ? interpolate(String(params[key]), values)
+      : "";
+
+  return match(matchVar.type)
+    .with("date", () => {
+      const offset = Number(params.offset) || 0;
+      const format = stringParam("format") || "%Y-%m-%d";
+      return formatDate(new Date(Date.now() + offset * 1000), format);
+    })
+    .with("echo", () => stringParam("echo"))
+    .with("random", () => {
+      const choices = Array.isArray(params.choices) ? params.choices : [];
+      if (choices.length === 0) return "";
+      const choice = choices[Math.floor(Math.random() * choices.length)];
+      return interpolate(String(choice), values);
+    })
+    .with("choice", () => {
+      // espanso asks the user to pick one: preview the first option
+      const options = Array.isArray(params.values) ? params.values : [];
+      const [first] = options;
+      if (first === undefined) return "";
+      if (typeof first === "object" && first !== null) {
+        const { id, label } = first as { id?: unknown; label?: unknown };
+        return String(id ?? label ?? "");
+      }
+      return String(first);
+    })
+    .with("shell", () => placeholder("shell output"))
+    .with("script", () => placeholder("script output"))
+    .with("clipboard", () => placeholder("clipboard content"))
+    .otherwise((type) => placeholder(`${type} variable`));
+}
+
+const applyCase = (text: string, caseStyle: CaseStyle): string =>
+  match(caseStyle)
+    .with("original", () => text)
+    .with("capitalize", () => text.replace(/\p{L}/u, (c) => c.toUpperCase()))
+    .with("uppercase", () => text.toUpperCase())
+    .exhaustive();
+
+/**
+ * Renders the expansion of a match, interpolating its variables
+ * @param m - Match to render
+ * @param globalVars - File-level variables available to every match
+ * @param groups - Named groups captured by a regex trigger
+ */
+export function renderExpansion(
+  m: PackageMatch,
+  globalVars: MatchVar[],
+  groups: Record<string, string> = {},
+): string {
+  const values = new Map(Object.entries(groups));
+
+  // Variables are evaluated in order, so each one can use the previous ones
+  [...globalVars, ...m.vars].forEach((matchVar) => {
+    values.set(matchVar.name, evaluateVar(matchVar, values));
+  });
+
+  const expansion = interpolate(m.expansion, values).replace(CURSOR_HINT, "");
+
+  return match(m.expansionType)
+    .with("image", () => placeholder(`image: ${m.expansion}`))
+    .with("form", () =>
+      expansion.replace(/\[\[\s*([\w-]+)\s*\]\]/g, (_, field: string) =>
+        placeholder(`form: ${field}`),
+      ),
+    )
+    .otherwise(() => expansion);
+}
+
+/**
+ * Emulates typing a character after `text`, expanding the trigger it completes.
+ * When several triggers fire at once, the longest one wins.
+ * @param text - Text typed so far
+ * @param char - Character being typed
+ * @param compiled - Matches compiled with compileMatches
+ * @param globalVars - File-level variables of the package
+ */
+export function typeCharacter(
+  text: string,
+  char: string,
+  compiled: CompiledMatch[],
+  globalVars: MatchVar[],
+): KeystrokeResult {
+  const [best] = findCandidates(text, char, compiled).sort(
+    (a, b) => b.typed.length - a.typed.length,
+  );
+
+  if (!best) {
+    return { text: text + char };
+  }
+
+  const expansion = applyCase(
+    renderExpansion(best.match, globalVars, best.groups),
+    best.caseStyle,
+  );
+
+  return {
+    text: (text + char).slice(0, best.start) + expansion + best.suffix,
+    expanded: { trigger: best.typed, match: best.match },
+  };
+}
@@ -0,0 +1,267 @@
+import { match } from "ts-pattern";
+import { splitAuthors, type Package } from "../model/packages";
+import { compareVersions } from "../lib/semver";
+import { escapeXml, slugify } from "../lib/utils";
+import { getAuthorSlugs } from "./authors";
+import { cacheFirstSeen, getCachedFirstSeen } from "./cache";
+import { getIndexLastUpdate, getPackagesIndex } from "./packages";
+import { getTagSlugs } from "./tags";
+import { absoluteUrl } from "./site";
+
+// Most recent entries listed in each feed
+const MAX_FEED_ENTRIES = 50;
+
+export type FeedFormat = "atom" | "rss";
+
+export type FeedScope =
+  | { type: "all" }
+  | { type: "tag"; slug: string }
+  | { type: "author"; slug: string };
+
+export type FeedEntry = {
+  /** A newly published package, or a new version of a known one */
+  kind: "package" | "version";
+  package: Package;
+  published: Date;
+};
+
+let entriesPromise: Promise<FeedEntry[]> | null = null;
+
+/**
+ * Dates every package version by comparing the index against the snapshot
+ * stored by the previous build: versions missing from it are new as of now.
+ * Without a snapshot, versions are dated from the last index update.
+ * The updated snapshot is stored for the next build.
+ */
+async function computeFeedEntries(): Promise<FeedEntry[]> {
+  const index = await getPackagesIndex();
+  const previous = await getCachedFirstSeen();
+  const seedDate = (
+    previous ? new Date() : await getIndexLastUpdate()
+  ).toISOString();
+
+  const firstSeen: Record<string, string> = { ...previous };
+  const added = index.packages.filter((pkg) => !(pkg.id in firstSeen));
+  added.forEach((pkg) => {
+    firstSeen[pkg.id] = seedDate;
+  });
+  if (added.length > 0 || !previous) {
+    console.log(`📰 ${added.length} new package versions since last build`);
+    await cacheFirstSeen(firstSeen);
+  }
+
+  // The first version of each package seen is its publication
+  const byPublication = index.packages
+    .map((pkg) => ({ pkg, published: new Date(firstSeen[pkg.id]) }))
+    .sort(
+      (a, b) =>
+        a.published.getTime() - b.published.getTime() ||
+        compareVersions(a.pkg.version, b.pkg.version),
+    );
+  const knownNames = new Set<string>();
+
+  return byPublication
+    .map(({ pkg, published }): FeedEntry => {
+      const kind = knownNames.has(pkg.name) ? "version" : "package";
+      knownNames.add(pkg.name);
+      return { kind, package: pkg, published };
+    })
+    .reverse();
+}
+
+/**
+ * Gets every publication of a package or version, most recent first.
+ * Computed once per build.
+ */
+export function getFeedEntries(): Promise<FeedEntry[]> {
+  entriesPromise ??= computeFeedEntries();
+  return entriesPromise;
+}
+
+const inScope = (scope: FeedScope, pkg: Package): boolean =>
+  match(scope)
+    .with({ type: "all" }, () => true)
+    .with({ type: "tag" }, ({ slug }) =>
+      pkg.tags.some((tag) => slugify(tag) === slug),
+    )
+    .with({ type: "author" }, ({ slug }) =>
+      splitAuthors(pkg.author).some((name) => slugify(name) === slug),
+    )
+    .exhaustive();
+
+/**
+ * Gets the path of a feed, e.g. /feeds/tag/emoji.atom
+ */
+export function feedPath(scope: FeedScope, format: FeedFormat): string {
+  return match(scope)
+    .with({ type: "all" }, () => `/feeds/packages.${format}`)
+    .with(
+      { type: "tag" },
+      { type: "author" },
+      ({ type, slug }) => `/feeds/${type}/${slug}.${format}`,
+    )
+    .exhaustive();
+}
+
+/**
+ * Gets the paths of every feed, for prerendering: the feed of all packages,
+ * and the feeds of the tags and authors with a page, each in Atom and RSS
+ * formats. Like their pages, they only count latest versions.
+ */
+export async function getAllFeedPaths(): Promise<string[]> {
+  const scopes: FeedScope[] = [
+    { type: "all" },
+    ...(await getTagSlugs()).map((slug) => ({ type: "tag" as const, slug })),
+    ...(await getAuthorSlugs()).map((slug) => ({
+      type: "author" as const,
+      slug,
+    })),
+  ];
+
+  return scopes.flatMap((scope) => [
+    feedPath(scope, "atom"),
+    feedPath(scope, "rss"),
+  ]);
+}
+
+type Feed = {
+  title: string;
+  description: string;
+  selfUrl: string;
+  pageUrl: string;
+  updated: Date;
+  entries: FeedEntry[];
+};
+
+const entryTitle = ({ kind, package: pkg }: FeedEntry): string =>
+  kind === "package"
+    ? `New package: ${pkg.title}`
+    : `${pkg.title} v${pkg.version}`;
+
+const entryUrl = ({ package: pkg }: FeedEntry): string =>
+  absoluteUrl(`/${pkg.name}/v/${pkg.version}`);
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.entries.map((entry) =>
+    [
+      "  <entry>",
+      `    <id>${escapeXml(entryUrl(entry))}</id>`,
+      `    <title>${escapeXml(entryTitle(entry))}</title>`,
+      `    <link href="${escapeXml(entryUrl(entry))}"/>`,
+      `    <updated>${entry.published.toISOString()}</updated>`,
+      `    <author><name>${escapeXml(entry.package.author)}</name></author>`,
+      ...entry.package.tags.map(
+        (tag) => `    <category term="${escapeXml(tag)}"/>`,
+      ),
+      `    <summary>${escapeXml(entry.package.description)}</summary>`,
+      "  </entry>",
+    ].join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.selfUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="self" href="${escapeXml(feed.selfUrl)}"/>`,
+    `  <link href="${escapeXml(feed.pageUrl)}"/>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.entries.map((entry) =>
+    [
+      "    <item>",
+      `      <guid isPermaLink="true">${escapeXml(entryUrl(entry))}</guid>`,
+      `      <title>${escapeXml(entryTitle(entry))}</title>`,
+      `      <link>${escapeXml(entryUrl(entry))}</link>`,
+      `      <pubDate>${entry.published.toUTCString()}</pubDate>`,
+      ...entry.package.tags.map(
+        (tag) => `      <category>${escapeXml(tag)}</category>`,
+      ),
+      `      <description>${escapeXml(entry.package.description)}</description>`,
+      "    </item>",
+    ].join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.pageUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Renders a feed of new packages and versions
+ * @returns The feed document, or null if no package matches the scope
+ */
+export async function renderFeed(
+  scope: FeedScope,
+  format: FeedFormat,
+): Promise<string | null> {
+  // Feeds of tags and authors without a page are not published
+  if (!(await getAllFeedPaths()).includes(feedPath(scope, format))) {
+    return null;
+  }
+
+  const entries = (await getFeedEntries()).filter((entry) =>
+    inScope(scope, entry.package),
+  );
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const subject = match(scope)
+    .with({ type: "all" }, () => "Espanso packages")
+    .with(
+      { type: "tag" },
+      ({ slug }) =>
+        `Espanso packages tagged ${
+          entries[0].package.tags.find((tag) => slugify(tag) === slug) ?? slug
+        }`,
+    )
+    .with(
+      { type: "author" },
+      ({ slug }) =>
+        `Espanso packages by ${
+          splitAuthors(entries[0].package.author).find(
+            (name) => slugify(name) === slug,
+          ) ?? slug
+        }`,
+    )
+    .exhaustive();
+
+  const feed: Feed = {
+    title: `${subject} - Espanso Hub`,
+    description: `${subject}: new packages and versions`,
+    selfUrl: absoluteUrl(feedPath(scope, format)),
+    pageUrl: absoluteUrl(
+      match(scope)
+        .with({ type: "all" }, () => "/search")
+        .with(
+          { type: "tag" },
+          { type: "author" },
+          ({ type, slug }) => `/${type}/${slug}`,
+        )
+        .exhaustive(),
+    ),
+    updated: entries[0].published,
+    entries: entries.slice(0, MAX_FEED_ENTRIES),
+  };
+
+  return format === "atom" ? renderAtom(feed) : renderRss(feed);
+}
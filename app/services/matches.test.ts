@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { parseMatchFile, parsePackageMatches } from "./matches";
+
+const FILE = "package.yml";
+
+describe("parseMatchFile", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("normalizes a match", () => {
+    const { matches } = parseMatchFile(
+      FILE,
+      `
+matches:
+  - trigger: ":hi"
+    replace: Hello
+    word: true
+    label: Greeting
+`,
+    );
+
+    expect(matches).toEqual([
+      {
+        id: `${FILE}#0`,
+        file: FILE,
+        triggers: [":hi"],
+        regex: undefined,
+        expansionType: "replace",
+        expansion: "Hello",
+        vars: [],
+        word: true,
+        propagateCase: false,
+        label: "Greeting",
+      },
+    ]);
+  });
+
+  it("merges trigger and triggers", () => {
+    const { matches } = parseMatchFile(
+      FILE,
+      `
+matches:
+  - trigger: ":a"
+    triggers: [":b", ":c"]
+    replace: x
+`,
+    );
+
+    expect(matches[0].triggers).toEqual([":a", ":b", ":c"]);
+  });
+
+  it("coerces scalar triggers and expansions to strings", () => {
+    const { matches } = parseMatchFile(
+      FILE,
+      `
+matches:
+  - trigger: 42
+    replace: true
+`,
+    );
+
+    expect(matches[0].triggers).toEqual(["42"]);
+    expect(matches[0].expansion).toBe("true");
+  });
+
+  it("picks the expansion following espanso's precedence", () => {
+    const { matches } = parseMatchFile(
+      FILE,
+      `
+matches:
+  - trigger: ":md"
+    markdown: "**bold**"
+    html: <b>bold</b>
+  - trigger: ":img"
+    image_path: $CONFIG/images/cat.png
+  - regex: ":date\\\\((?P<format>.*)\\\\)"
+    form: "[[value]]"
+`,
+    );
+
+    expect(
+      matches.map(({ expansionType, expansion }) => [expansionType, expansion]),
+    ).toEqual([
+      ["markdown", "**bold**"],
+      ["image", "$CONFIG/images/cat.png"],
+      ["form", "[[value]]"],
+    ]);
+    expect(matches[2].regex).toBe(":date\\((?P<format>.*)\\)");
+    expect(matches[2].triggers).toEqual([]);
+  });
+
+  it("skips invalid and incomplete matches, keeping their index in ids", () => {
+    const { matches, skipped } = parseMatchFile(
+      FILE,
+      `
+matches:
+  - trigger: ":no-expansion"
+  - replace: no trigger
+  - trigger: [":not", ":a", ":string"]
+    replace: x
+  - trigger: ":ok"
+    replace: ok
+`,
+    );
+
+    expect(matches.map(({ id }) => id)).toEqual([`${FILE}#3`]);
+    expect(skipped).toBe(3);
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it("keeps the valid global variables", () => {
+    const { matches, globalVars } = parseMatchFile(
+      FILE,
+      `
+global_vars:
+  - name: today
+    type: date
+    params:
+      format: "%Y-%m-%d"
+  - name: missing-type
+`,
+    );
+
+    expect(matches).toEqual([]);
+    expect(globalVars).toEqual([
+      { name: "today", type: "date", params: { format: "%Y-%m-%d" } },
+    ]);
+  });
+
+  it("accepts an empty file", () => {
+    expect(parseMatchFile(FILE, "")).toEqual({
+      matches: [],
+      globalVars: [],
+      skipped: 0,
+    });
+  });
+
+  it("throws on content that is not a match file", () => {
+    expect(() => parseMatchFile(FILE, "matches: not a list")).toThrow();
+    expect(() => parseMatchFile(FILE, "matches: [")).toThrow();
+  });
+});
+
+describe("parsePackageMatches", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("reports the files and matches that could not be parsed", () => {
+    const parsed = parsePackageMatches({
+      "_manifest.yml": "name: package",
+      "README.md": "# Package",
+      "package.yml": `
+matches:
+  - trigger: ":ok"
+    replace: ok
+  - trigger: ":no-expansion"
+`,
+      "broken.yml": "matches: [",
+    });
+
+    expect(parsed.matches.map(({ id }) => id)).toEqual(["package.yml#0"]);
+    expect(parsed.errors.map(({ file }) => file)).toEqual(["broken.yml"]);
+    expect(parsed.skipped).toEqual([{ file: "package.yml", count: 1 }]);
+  });
+});
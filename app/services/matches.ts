@@ -0,0 +1,175 @@
+import * as v from "valibot";
+import { match, P } from "ts-pattern";
+import { parse } from "yaml";
+import {
+  MatchFileSchema,
+  MatchVarSchema,
+  RawMatchSchema,
+} from "../model/matches";
+import type {
+  ExpansionType,
+  MatchFileError,
+  MatchVar,
+  PackageMatch,
+  PackageMatches,
+  RawMatch,
+  SkippedMatches,
+} from "../model/matches";
+
+/**
+ * Tells whether an archive file is an espanso match file.
+ * Every YAML file except the package manifest holds matches.
+ */
+export function isMatchFile(fileName: string): boolean {
+  const baseName = fileName.split("/").pop() ?? fileName;
+  return /\.ya?ml$/i.test(baseName) && baseName !== "_manifest.yml";
+}
+
+/**
+ * Picks the expansion of a raw match, following espanso's precedence
+ * @returns The expansion type and value, or null if the match has none
+ */
+function toExpansion(
+  raw: RawMatch,
+): { type: ExpansionType; value: string } | null {
+  return match(raw)
+    .with({ replace: P.string }, (m) => ({
+      type: "replace" as const,
+      value: m.replace,
+    }))
+    .with({ markdown: P.string }, (m) => ({
+      type: "markdown" as const,
+      value: m.markdown,
+    }))
+    .with({ html: P.string }, (m) => ({
+      type: "html" as const,
+      value: m.html,
+    }))
+    .with({ image_path: P.string }, (m) => ({
+      type: "image" as const,
+      value: m.image_path,
+    }))
+    .with({ form: P.string }, (m) => ({
+      type: "form" as const,
+      value: m.form,
+    }))
+    .otherwise(() => null);
+}
+
+/**
+ * Validates the file-level global variables, skipping the invalid ones
+ */
+function parseGlobalVars(rawVars: unknown[], file: string): MatchVar[] {
+  return rawVars.flatMap((rawVar) => {
+    const result = v.safeParse(MatchVarSchema, rawVar);
+    if (!result.success) {
+      console.warn(`Skipping invalid global var in ${file}`);
+      return [];
+    }
+    return [result.output];
+  });
+}
+
+/**
+ * Parses a single match file content into normalized matches.
+ * Invalid matches are skipped with a warning, and counted.
+ * @throws Error if the content is not valid YAML or not a match file
+ */
+export function parseMatchFile(
+  file: string,
+  content: string,
+): { matches: PackageMatch[]; globalVars: MatchVar[]; skipped: number } {
+  const parseResult = v.safeParse(MatchFileSchema, parse(content) ?? {});
+
+  if (!parseResult.success) {
+    throw new Error(
+      parseResult.issues.map((issue) => issue.message).join(", "),
+    );
+  }
+
+  const matches = parseResult.output.matches.flatMap(
+    (rawMatch, index): PackageMatch[] => {
+      const result = v.safeParse(RawMatchSchema, rawMatch);
+      if (!result.success) {
+        console.warn(`Skipping invalid match #${index} in ${file}`);
+        return [];
+      }
+
+      const raw = result.output;
+      const triggers = [
+        ...(raw.trigger !== undefined ? [raw.trigger] : []),
+        ...(raw.triggers ?? []),
+      ];
+      const expansion = toExpansion(raw);
+
+      if ((triggers.length === 0 && !raw.regex) || !expansion) {
+        console.warn(`Skipping incomplete match #${index} in ${file}`);
+        return [];
+      }
+
+      return [
+        {
+          id: `${file}#${index}`,
+          file,
+          triggers,
+          regex: raw.regex,
+          expansionType: expansion.type,
+          expansion: expansion.value,
+          vars: raw.vars ?? [],
+          word: raw.word ?? false,
+          propagateCase: raw.propagate_case ?? false,
+          label: raw.label,
+        },
+      ];
+    },
+  );
+
+  return {
+    matches,
+    globalVars: parseGlobalVars(parseResult.output.global_vars, file),
+    skipped: parseResult.output.matches.length - matches.length,
+  };
+}
+
+/**
+ * Parses every match file of a package archive.
+ * Files that cannot be parsed are reported in `errors` instead of throwing,
+ * and the matches left out of the others in `skipped`.
+ * @param files Record of file paths to file contents, as returned by fetchPackageFiles
+ */
+export function parsePackageMatches(
+  files: Record<string, string>,
+): PackageMatches {
+  const matches: PackageMatch[] = [];
+  const globalVars: MatchVar[] = [];
+  const errors: MatchFileError[] = [];
+  const skipped: SkippedMatches[] = [];
+
+  Object.keys(files)
+    .filter(isMatchFile)
+    .sort()
+    .forEach((file) => {
+      try {
+        const parsed = parseMatchFile(file, files[file]);
+        matches.push(...parsed.matches);
+        globalVars.push(...parsed.globalVars);
+        if (parsed.skipped > 0) {
+          skipped.push({ file, count: parsed.skipped });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Failed to parse match file ${file}: ${message}`);
+        errors.push({ file, message });
+      }
+    });
+
+  return { matches, globalVars, errors, skipped };
+}
+
+/**
+ * Collects the unique literal triggers of a list of matches.
+ * Regex triggers are left out since their source is not meant to be typed as-is.
+ */
+export function collectTriggers(matches: PackageMatch[]): string[] {
+  return Array.from(new Set(matches.flatMap((m) => m.triggers)));
+}
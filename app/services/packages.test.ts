@@ -0,0 +1,72 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const entry = (name: string, tags: string[]) => ({
+  name,
+  author: "a",
+  description: "d",
+  title: name,
+  version: "1.0.0",
+  archive_url: `https://example.com/${name}.zip`,
+  archive_sha256_url: `https://example.com/${name}.sha256.txt`,
+  tags,
+});
+
+describe("package index tags", () => {
+  let dir: string;
+  let packages: typeof import("./packages");
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "hub-index-"));
+    const file = path.join(dir, "index.json");
+    await writeFile(
+      file,
+      JSON.stringify({
+        last_update: 1,
+        packages: [
+          entry("smileys", ["Emojis", "emoji", "JS"]),
+          entry("kana", ["日本語", "js", "Math"]),
+        ],
+      }),
+    );
+
+    // The index location is read when the module loads
+    vi.stubEnv("PACKAGE_INDEX_URL", pathToFileURL(file).href);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.resetModules();
+    packages = await import("./packages");
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("maps the tags to their canonical spelling, without duplicates", async () => {
+    const index = await packages.getPackagesIndex();
+
+    expect(index.packages.map(({ tags }) => tags)).toEqual([
+      ["emoji", "js"],
+      ["日本語", "js", "math"],
+    ]);
+  });
+
+  it("reports the tags missing from the taxonomy", async () => {
+    expect(await packages.getUnknownTags()).toEqual([
+      { tag: "js", packages: ["kana", "smileys"] },
+      { tag: "日本語", packages: ["kana"] },
+    ]);
+  });
+
+  it("records the renamed tags", async () => {
+    expect(Object.fromEntries(await packages.getRenamedTags())).toEqual({
+      Emojis: "emoji",
+      JS: "js",
+      Math: "math",
+    });
+  });
+});
@@ -1,21 +1,140 @@
 import * as v from "valibot";
 import { match } from "ts-pattern";
-import { PackagesIndexSchema } from "../model/packages";
-import type { PackagesIndex, Package } from "../model/packages";
-
+import { compareVersions, selectLatestVersion } from "../lib/semver";
+import { PackageSchema, PackagesIndexEnvelopeSchema } from "../model/packages";
+import { canonicalizeTag } from "../model/taxonomy";
+import type {
+  PackagesIndex,
+  Package,
+  RejectedPackage,
+} from "../model/packages";
+import { defineReport } from "./reports";
+import {
+  cacheArchive,
+  cacheSha256,
+  cacheUnverifiedArchive,
+  getCachedArchive,
+  getCachedSha256,
+  getCachedUnverifiedArchive,
+  sha256Hex,
+} from "./cache";
+import { mapWithConcurrency, withRetries } from "./concurrency";
+import {
+  getLocalPackageDirectory,
+  readPackageDirectory,
+  readUrl,
+  resolveIndexSource,
+} from "./sources";
+
+// An HTTP(S) URL, or a file:// URL or path of an index JSON file or of a
+// local checkout of the espanso hub repository
 const PACKAGE_INDEX_URL =
   process.env.PACKAGE_INDEX_URL ||
   "https://github.com/espanso/hub/releases/download/v1.0.0/package_index.json";
 
+// Set ARCHIVE_INTEGRITY=strict to fail the build on archive hash mismatches
+const STRICT_ARCHIVE_INTEGRITY = process.env.ARCHIVE_INTEGRITY === "strict";
+
+// Number of times a failed archive or hash download is retried
+const ARCHIVE_RETRIES = Number(process.env.ARCHIVE_RETRIES ?? 3);
+
+// Maximum number of package archives downloaded at the same time
+export const ARCHIVE_CONCURRENCY = Number(
+  process.env.PRERENDER_CONCURRENCY ?? 4,
+);
+
 // Module-level cache to ensure single fetch per build process
 let cachedPackagesIndex: PackagesIndex | null = null;
 let fetchPromise: Promise<PackagesIndex> | null = null;
 
+// Outcome of the last index validation
+const validation = defineReport(
+  "index-validation",
+  { accepted: 0, rejected: [] as RejectedPackage[] },
+  ({ accepted, rejected }) => ({
+    source: PACKAGE_INDEX_URL,
+    accepted,
+    rejectedEntries: rejected.length,
+    rejected: rejected.flatMap(({ name, version, position, issues }) =>
+      issues.map((issue) => ({ package: name, version, position, ...issue })),
+    ),
+  }),
+);
+
+// Tags missing from the taxonomy, with the names of the packages using them
+const unknownTags = defineReport(
+  "unknown-tags",
+  new Map<string, Set<string>>(),
+  () => ({ tags: listUnknownTags() }),
+);
+
+// Tags of the index renamed to their canonical spelling, to the canonical tag
+const renamedTags = new Map<string, string>();
+
+/**
+ * Lists the tags missing from the taxonomy, most used first
+ */
+function listUnknownTags(): Array<{ tag: string; packages: string[] }> {
+  return Array.from(unknownTags, ([tag, names]) => ({
+    tag,
+    packages: Array.from(names).sort(),
+  })).sort(
+    (a, b) =>
+      b.packages.length - a.packages.length || a.tag.localeCompare(b.tag),
+  );
+}
+
 /**
- * Fetches and validates the package index from the configured URL.
- * Filters out dummy packages and validates all package data.
+ * Maps the tags of a package to their canonical spelling, merging synonyms,
+ * and records the tags the taxonomy does not know
+ */
+function normalizeTags(pkg: Package): Package {
+  const tags = pkg.tags.map((tag) => {
+    const canonical = canonicalizeTag(tag);
+    if (!canonical.known && canonical.tag !== "") {
+      unknownTags.set(
+        canonical.tag,
+        (unknownTags.get(canonical.tag) ?? new Set()).add(pkg.name),
+      );
+    }
+    if (canonical.tag !== tag) {
+      renamedTags.set(tag, canonical.tag);
+    }
+    return canonical.tag;
+  });
+  return { ...pkg, tags: Array.from(new Set(tags)).filter(Boolean) };
+}
+
+/**
+ * Builds the validation report entry of a rejected index entry
+ */
+function toRejectedPackage(
+  entry: unknown,
+  position: number,
+  issues: [v.BaseIssue<unknown>, ...v.BaseIssue<unknown>[]],
+): RejectedPackage {
+  const raw = (
+    typeof entry === "object" && entry !== null ? entry : {}
+  ) as Record<string, unknown>;
+  return {
+    position,
+    name: typeof raw.name === "string" ? raw.name : undefined,
+    version: typeof raw.version === "string" ? raw.version : undefined,
+    issues: issues.map((issue) => ({
+      field: v.getDotPath(issue) ?? "(entry)",
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Loads and validates the package index from the configured source.
+ * Packages are validated individually: invalid ones are dropped with a
+ * warning and listed in the index-validation build report.
+ * Tags are normalized with the tag taxonomy, see model/taxonomy.
+ * Filters out dummy packages.
  * Cached at module level to ensure single fetch per build.
- * @throws Error if fetch fails or validation fails
+ * @throws Error if fetch fails or the index itself is malformed
  */
 export async function fetchPackagesIndex(): Promise<PackagesIndex> {
   // Return cached result if available
@@ -31,46 +150,53 @@ export async function fetchPackagesIndex(): Promise<PackagesIndex> {
   }
 
   // Start new fetch and cache the promise
-  console.log("🌐 Fetching package index from:", PACKAGE_INDEX_URL);
   fetchPromise = (async () => {
-    const response = await fetch(PACKAGE_INDEX_URL);
-
-    if (!response.ok) {
+    const source = await resolveIndexSource(PACKAGE_INDEX_URL);
+    const { index: json, rejected: unreadable } = await source.loadIndex();
+
+    // Validate the index shape, then every package on its own
+    const envelope = v.safeParse(PackagesIndexEnvelopeSchema, json);
+    if (!envelope.success) {
+      const flattenedIssues = v.flatten(envelope.issues);
+      console.error("Package index validation failed:", flattenedIssues);
       throw new Error(
-        `Failed to fetch package index from ${PACKAGE_INDEX_URL}: ${response.status} ${response.statusText}`,
+        `Package index validation failed: ${JSON.stringify(flattenedIssues, null, 2)}`,
       );
     }
 
-    const json = await response.json();
-
-    // Validate the entire response
-    const parseResult = v.safeParse(PackagesIndexSchema, json);
-
-    const result = match(parseResult)
-      .with({ success: true }, (result) => {
-        // Filter out dummy packages
-        const filteredPackages = result.output.packages.filter(
-          (pkg) => pkg.name !== "dummy-package",
-        );
-
-        return {
-          ...result.output,
-          packages: filteredPackages,
-        };
-      })
-      .with({ success: false }, (result) => {
-        const flattenedIssues = v.flatten(result.issues);
-        console.error("Package index validation failed:", flattenedIssues);
-        throw new Error(
-          `Package index validation failed: ${JSON.stringify(flattenedIssues, null, 2)}`,
-        );
-      })
-      .exhaustive();
+    const packages: Package[] = [];
+    const rejectedPackages: RejectedPackage[] = [...unreadable];
+    envelope.output.packages.forEach((entry, position) => {
+      match(v.safeParse(PackageSchema, entry))
+        .with({ success: true }, ({ output }) => {
+          packages.push(output);
+        })
+        .with({ success: false }, ({ issues }) => {
+          const rejected = toRejectedPackage(entry, position, issues);
+          console.warn(
+            `⚠️ Skipping invalid package ${rejected.name ?? `#${position}`} v${rejected.version ?? "?"}: ${rejected.issues
+              .map(({ field, message }) => `${field}: ${message}`)
+              .join("; ")}`,
+          );
+          rejectedPackages.push(rejected);
+        })
+        .exhaustive();
+    });
+
+    const result: PackagesIndex = {
+      last_update: envelope.output.last_update,
+      // Filter out dummy packages
+      packages: packages
+        .filter((pkg) => pkg.name !== "dummy-package")
+        .map(normalizeTags),
+    };
 
     // Cache the result
     cachedPackagesIndex = result;
+    validation.accepted = result.packages.length;
+    validation.rejected = rejectedPackages;
     console.log(
-      `✅ Package index fetched and cached (${result.packages.length} packages)`,
+      `✅ Package index fetched and cached (${result.packages.length} packages, ${rejectedPackages.length} rejected)`,
     );
     return result;
   })();
@@ -91,6 +217,43 @@ export async function getPackagesIndex(): Promise<PackagesIndex> {
   }
 }
 
+/**
+ * Gets the index entries dropped because they failed validation
+ */
+export async function getRejectedPackages(): Promise<RejectedPackage[]> {
+  await getPackagesIndex();
+  return validation.rejected;
+}
+
+/**
+ * Gets the tags of the index missing from the taxonomy, most used first,
+ * with the names of the packages using them
+ */
+export async function getUnknownTags(): Promise<
+  Array<{ tag: string; packages: string[] }>
+> {
+  await getPackagesIndex();
+  return listUnknownTags();
+}
+
+/**
+ * Gets the tags of the index that were renamed to their canonical spelling
+ * @returns Map of the tags as written in the index to their canonical tag
+ */
+export async function getRenamedTags(): Promise<Map<string, string>> {
+  await getPackagesIndex();
+  return renamedTags;
+}
+
+/**
+ * Gets the date of the last package index update. The timestamp is read as
+ * seconds since the epoch, or as milliseconds when too large for seconds.
+ */
+export async function getIndexLastUpdate(): Promise<Date> {
+  const { last_update } = await getPackagesIndex();
+  return new Date(last_update < 1e12 ? last_update * 1000 : last_update);
+}
+
 /**
  * Gets unique package names from the package index.
  * Since multiple versions of the same package exist, we deduplicate by name.
@@ -114,17 +277,8 @@ export async function getPackageByName(
     (pkg) => pkg.name === packageName,
   );
 
-  if (packageVersions.length === 0) {
-    return null;
-  }
-
-  // Sort by version (descending) and return the latest
-  const sorted = packageVersions.sort((a, b) => {
-    // Simple version comparison - could use compare-versions library if needed
-    return b.version.localeCompare(a.version, undefined, { numeric: true });
-  });
-
-  return sorted[0];
+  // Pre-releases are only the latest version when there is no stable release
+  return selectLatestVersion(packageVersions) ?? null;
 }
 
 /**
@@ -148,7 +302,7 @@ export async function getVersionsForPackage(name: string): Promise<string[]> {
   const versions = index.packages
     .filter((p) => p.name === name)
     .map((p) => p.version)
-    .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+    .sort((a, b) => compareVersions(b, a));
   return Array.from(new Set(versions));
 }
 
@@ -161,6 +315,52 @@ export async function getAllPackageVersionPaths(): Promise<string[]> {
   return index.packages.map((p) => `/${p.name}/v/${p.version}`);
 }
 
+/**
+ * Gets the version ranges of a package that can be compared: each version
+ * with the one before it, most recent first, then each older version with
+ * the latest one. Only these are prerendered.
+ */
+export async function getCompareRanges(
+  name: string,
+): Promise<Array<{ from: string; to: string }>> {
+  const versions = await getVersionsForPackage(name);
+  const latest = (await getPackageByName(name))?.version;
+
+  // Versions are sorted in descending order: pair each with its predecessor
+  const consecutive = versions
+    .slice(0, -1)
+    .map((to, i) => ({ from: versions[i + 1], to }));
+  const toLatest = latest
+    ? versions
+        .filter((version) => compareVersions(version, latest) < 0)
+        .map((from) => ({ from, to: latest }))
+        .filter(
+          ({ from, to }) =>
+            !consecutive.some(
+              (range) => range.from === from && range.to === to,
+            ),
+        )
+    : [];
+
+  return [...consecutive, ...toLatest];
+}
+
+/**
+ * Gets the paths of every comparable version range, for prerendering.
+ * Returns paths in the format /:name/compare/:from...:to
+ */
+export async function getAllPackageComparePaths(): Promise<string[]> {
+  const names = await getUniquePackageNames();
+  const paths = await Promise.all(
+    names.map(async (name) =>
+      (await getCompareRanges(name)).map(
+        ({ from, to }) => `/${name}/compare/${from}...${to}`,
+      ),
+    ),
+  );
+  return paths.flat();
+}
+
 /**
  * Parse the _manifest.yml file content to extract repository home URL
  * @param manifestContent Content of the _manifest.yml file
@@ -188,57 +388,267 @@ export function parseManifest(manifestContent: string): string | null {
   }
 }
 
+export type ArchiveIntegrity = "verified" | "mismatch" | "unverified";
+
+export type PackageArchive = {
+  files: Record<string, string>;
+  integrity: ArchiveIntegrity;
+  /** False when the archive could not be downloaded or unzipped */
+  available: boolean;
+};
+
+// Integrity check result of every archive downloaded during this build
+const integrityResults = defineReport(
+  "archive-integrity",
+  new Map<
+    string,
+    { name: string; version: string; integrity: ArchiveIntegrity }
+  >(),
+  (integrityResults) => {
+    const results = Array.from(integrityResults.values());
+    return {
+      verified: results.filter((r) => r.integrity === "verified").length,
+      mismatches: results.filter((r) => r.integrity === "mismatch"),
+      unverified: results.filter((r) => r.integrity === "unverified"),
+    };
+  },
+);
+
 /**
- * Fetches a package archive from its archive_url, unzips it and returns the file contents
- * as a record of file paths to file contents.
- * @param archiveUrl URL to the package archive zip file
- * @returns Record of file paths to file contents
+ * Fetches the SHA-256 hash published next to a package archive.
+ * The hash file may also contain the archive file name, only the digest is kept.
+ * Published versions are immutable, so hashes are cached on disk for good.
+ * @returns Lowercase hex digest, or null if it cannot be retrieved
  */
-export async function fetchPackageFiles(
-  archiveUrl: string,
-): Promise<Record<string, string>> {
+async function fetchPublishedSha256(pkg: Package): Promise<string | null> {
+  if (!pkg.archive_sha256_url) {
+    return null;
+  }
+
+  const cached = await getCachedSha256(pkg.name, pkg.version);
+  if (cached !== null) {
+    return cached;
+  }
+
   try {
-    console.log(`🔍 Fetching package archive from: ${archiveUrl}`);
-    const response = await fetch(archiveUrl);
+    const content = new TextDecoder().decode(
+      await withRetries(
+        () => readUrl(pkg.archive_sha256_url),
+        ARCHIVE_RETRIES,
+        `Download of the ${pkg.name} v${pkg.version} archive hash`,
+      ),
+    );
+    const digest = content.match(/\b[a-f0-9]{64}\b/i);
+    if (!digest) {
+      return null;
+    }
 
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch package archive from ${archiveUrl}: ${response.status} ${response.statusText}`,
-      );
+    const sha256 = digest[0].toLowerCase();
+    await cacheSha256(pkg.name, pkg.version, sha256);
+    return sha256;
+  } catch (error) {
+    console.warn(
+      `Failed to fetch archive hash from ${pkg.archive_sha256_url}: ${error}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Verifies an archive against its published SHA-256 hash (null when unknown).
+ * Mismatches fail the build when ARCHIVE_INTEGRITY=strict, and are otherwise
+ * logged and listed in the archive-integrity build report.
+ * @throws Error if the archive does not match its hash in strict mode
+ */
+async function verifyArchive(
+  pkg: Package,
+  zipBuffer: ArrayBuffer,
+  expected: string | null,
+): Promise<ArchiveIntegrity> {
+  const integrity: ArchiveIntegrity =
+    expected === null
+      ? "unverified"
+      : expected === (await sha256Hex(zipBuffer))
+        ? "verified"
+        : "mismatch";
+
+  integrityResults.set(pkg.id, {
+    name: pkg.name,
+    version: pkg.version,
+    integrity,
+  });
+
+  if (integrity === "mismatch") {
+    const message = `Archive of ${pkg.name} v${pkg.version} does not match its published SHA-256 hash`;
+    if (STRICT_ARCHIVE_INTEGRITY) {
+      throw new Error(message);
     }
+    console.warn(`⚠️ ${message}`);
+  }
+
+  return integrity;
+}
 
-    // Get the zip file as an ArrayBuffer
-    const zipBuffer = await response.arrayBuffer();
+/**
+ * Unzips an archive and returns the file contents as a record of file paths to file contents.
+ */
+async function extractArchiveFiles(
+  zipBuffer: ArrayBuffer,
+): Promise<Record<string, string>> {
+  // Use the JSZip library to extract the contents
+  const JSZip = (await import("jszip")).default;
+  const zip = new JSZip();
+  const zipContent = await zip.loadAsync(zipBuffer);
+
+  const files: Record<string, string> = {};
+
+  // Process all files in the zip archive
+  const filePromises = Object.keys(zipContent.files).map(async (filename) => {
+    const zipEntry = zipContent.files[filename];
+
+    // Skip directories
+    if (zipEntry.dir) return;
+
+    try {
+      // Read the file content as text
+      const content = await zipEntry.async("string");
+      files[filename] = content;
+    } catch (err) {
+      console.warn(`Failed to read file ${filename} from archive: ${err}`);
+    }
+  });
+
+  await Promise.all(filePromises);
+  console.log(`📂 Extracted ${Object.keys(files).length} files from archive`);
+
+  return files;
+}
 
-    // Use the JSZip library to extract the contents
-    const JSZip = (await import("jszip")).default;
-    const zip = new JSZip();
-    const zipContent = await zip.loadAsync(zipBuffer);
+/**
+ * Gets a package archive from the disk cache or downloads it from its
+ * archive_url, then verifies it against its published SHA-256 hash.
+ * Verified archives are cached on disk, keyed by name, version and hash.
+ * Archives without a hash are cached for the rest of the build only.
+ * @returns The archive, or null if it cannot be downloaded
+ * @throws Error if the archive does not match its hash in strict mode
+ */
+async function loadArchive(
+  pkg: Package,
+): Promise<{ zipBuffer: ArrayBuffer; integrity: ArchiveIntegrity } | null> {
+  const expected = await fetchPublishedSha256(pkg);
+  const cached = expected
+    ? await getCachedArchive(pkg.name, pkg.version, expected)
+    : await getCachedUnverifiedArchive(pkg.name, pkg.version);
+  let zipBuffer: ArrayBuffer;
+
+  if (cached) {
+    console.log(`💾 Using cached archive of ${pkg.name} v${pkg.version}`);
+    zipBuffer = cached;
+  } else {
+    try {
+      console.log(`🔍 Fetching package archive from: ${pkg.archive_url}`);
+      zipBuffer = await withRetries(
+        () => readUrl(pkg.archive_url),
+        ARCHIVE_RETRIES,
+        `Download of ${pkg.name} v${pkg.version}`,
+      );
+    } catch (error) {
+      console.error("Error fetching package archive:", error);
+      return null;
+    }
+  }
 
-    const files: Record<string, string> = {};
+  const integrity = await verifyArchive(pkg, zipBuffer, expected);
 
-    // Process all files in the zip archive
-    const filePromises = Object.keys(zipContent.files).map(async (filename) => {
-      const zipEntry = zipContent.files[filename];
+  // The hash is the cache key: only archives matching it are cached
+  if (!cached && expected && integrity === "verified") {
+    await cacheArchive(pkg.name, pkg.version, expected, zipBuffer);
+  } else if (!cached && !expected) {
+    await cacheUnverifiedArchive(pkg.name, pkg.version, zipBuffer);
+  }
 
-      // Skip directories
-      if (zipEntry.dir) return;
+  return { zipBuffer, integrity };
+}
 
-      try {
-        // Read the file content as text
-        const content = await zipEntry.async("string");
-        files[filename] = content;
-      } catch (err) {
-        console.warn(`Failed to read file ${filename} from archive: ${err}`);
-      }
-    });
+/**
+ * Fetches a package archive, verifies it against its published SHA-256 hash,
+ * unzips it and returns the file contents.
+ * Packages whose archive_url is a local directory are read in place, unverified.
+ * A failed download yields an empty, unverified archive.
+ * @param pkg Package whose archive is fetched
+ * @throws Error if the archive does not match its hash in strict mode
+ */
+export async function fetchPackageArchive(
+  pkg: Package,
+): Promise<PackageArchive> {
+  const localDir = await getLocalPackageDirectory(pkg);
+  if (localDir) {
+    return {
+      files: await readPackageDirectory(localDir),
+      integrity: "unverified",
+      available: true,
+    };
+  }
 
-    await Promise.all(filePromises);
-    console.log(`📂 Extracted ${Object.keys(files).length} files from archive`);
+  const archive = await loadArchive(pkg);
+  if (!archive) {
+    return { files: {}, integrity: "unverified", available: false };
+  }
 
-    return files;
+  try {
+    return {
+      files: await extractArchiveFiles(archive.zipBuffer),
+      integrity: archive.integrity,
+      available: true,
+    };
   } catch (error) {
-    console.error("Error fetching package archive:", error);
-    return {};
+    console.error("Error extracting package archive:", error);
+    return { files: {}, integrity: archive.integrity, available: false };
+  }
+}
+
+/**
+ * Downloads package archives ahead of rendering, a few at a time, so that
+ * pages read them from the disk cache. Archives still failing after their
+ * retries are downloaded again one at a time once the others are done, in
+ * case the archive host was only briefly unavailable.
+ * @param packages Packages whose archives are downloaded
+ * @param concurrency Maximum number of simultaneous downloads
+ * @returns Packages whose archive could not be downloaded
+ * @throws Error if an archive does not match its hash in strict mode
+ */
+export async function prefetchPackageArchives(
+  packages: Package[],
+  concurrency: number,
+): Promise<Package[]> {
+  const prefetch = async (pkg: Package) =>
+    (await getLocalPackageDirectory(pkg)) || (await loadArchive(pkg))
+      ? null
+      : pkg;
+
+  const failed = (
+    await mapWithConcurrency(packages, concurrency, prefetch)
+  ).filter((pkg) => pkg !== null);
+  if (failed.length === 0) {
+    return [];
   }
+
+  console.warn(
+    `⚠️ ${failed.length} package archives could not be downloaded, trying again`,
+  );
+  return (await mapWithConcurrency(failed, 1, prefetch)).filter(
+    (pkg) => pkg !== null,
+  );
+}
+
+/**
+ * Fetches a package archive and returns its verified file contents
+ * as a record of file paths to file contents.
+ * @param pkg Package whose archive is fetched
+ * @returns Record of file paths to file contents
+ */
+export async function fetchPackageFiles(
+  pkg: Package,
+): Promise<Record<string, string>> {
+  return (await fetchPackageArchive(pkg)).files;
 }
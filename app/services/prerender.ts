@@ -0,0 +1,43 @@
+import type { Package } from "../model/packages";
+import { defineReport } from "./reports";
+import { BASENAME } from "./site";
+
+/**
+ * Outcome of the prerender, written as the prerender build report
+ */
+export type PrerenderState = {
+  /** Number of prerendered paths */
+  paths: number;
+  /** Archives still failing to download after every retry */
+  failedArchives: Array<Pick<Package, "name" | "version" | "archive_url">>;
+  /** Pages rendered without the archive they show, by path */
+  failedPages: Map<string, string>;
+};
+
+export const prerenderReport = defineReport<PrerenderState>(
+  "prerender",
+  { paths: 0, failedArchives: [], failedPages: new Map() },
+  ({ paths, failedArchives, failedPages }) => ({
+    paths,
+    failedArchives,
+    failedPages: Array.from(failedPages, ([path, reason]) => ({
+      path,
+      reason,
+    })),
+  }),
+);
+
+/**
+ * Records that a page could not be rendered in full, e.g. because the archive
+ * of its package could not be downloaded. The page and its .data request are
+ * recorded once, by route path.
+ * @param request - Request of the loader rendering the page
+ * @param reason - What is missing from the page
+ */
+export function reportFailedPage(request: Request, reason: string) {
+  const path = `/${new URL(request.url).pathname.slice(BASENAME.length)}`
+    .replace(/\.data$/, "")
+    .replace(/(.)\/$/, "$1");
+  console.warn(`⚠️ Rendering ${path} without ${reason}`);
+  prerenderReport.failedPages.set(path, reason);
+}
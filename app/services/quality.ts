@@ -0,0 +1,151 @@
+import { parse } from "yaml";
+import type { PackageMatches } from "../model/matches";
+import type { Package } from "../model/packages";
+
+// READMEs shorter than this (markdown included) barely say more than the title
+const MIN_README_LENGTH = 200;
+const MIN_DESCRIPTION_LENGTH = 30;
+
+export type QualityCheckId =
+  | "readme"
+  | "homepage"
+  | "tags"
+  | "description"
+  | "duplicate-triggers"
+  | "valid-yaml"
+  | "license";
+
+export type QualityCheck = {
+  id: QualityCheckId;
+  label: string;
+  passed: boolean;
+  /** Why the check failed, or what it found */
+  detail: string;
+};
+
+export type QualityReport = {
+  /** Percentage of passed checks, from 0 to 100 */
+  score: number;
+  checks: QualityCheck[];
+};
+
+const baseName = (file: string) => file.split("/").pop() ?? file;
+
+/**
+ * Finds the literal triggers defined by more than one match of a package
+ */
+function findDuplicateTriggers(matches: PackageMatches["matches"]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  matches
+    .flatMap((m) => Array.from(new Set(m.triggers)))
+    .forEach((trigger) => {
+      if (seen.has(trigger)) {
+        duplicates.add(trigger);
+      }
+      seen.add(trigger);
+    });
+  return Array.from(duplicates);
+}
+
+/**
+ * Lints a package version from its index entry and archive files
+ * @param pkg - Index entry of the package version
+ * @param files - Archive files, as returned by fetchPackageFiles
+ * @param parsed - Match files parsed with parsePackageMatches
+ */
+export function computeQuality(
+  pkg: Package,
+  files: Record<string, string>,
+  parsed: PackageMatches,
+): QualityReport {
+  const readme = Object.keys(files).find((file) =>
+    /^readme(\.md)?$/i.test(baseName(file)),
+  );
+  const readmeLength = readme ? files[readme].trim().length : 0;
+
+  const license = Object.keys(files).find((file) =>
+    /^(licen[sc]e|copying)(\.\w+)?$/i.test(baseName(file)),
+  );
+
+  const yamlErrors = parsed.errors.map(({ file }) => file);
+  let manifest: Record<string, unknown> | null = null;
+  if (files["_manifest.yml"] !== undefined) {
+    try {
+      manifest = parse(files["_manifest.yml"]);
+    } catch {
+      yamlErrors.push("_manifest.yml");
+    }
+  }
+  const homepage =
+    typeof manifest?.homepage === "string" && manifest.homepage.trim() !== ""
+      ? manifest.homepage
+      : null;
+
+  const duplicates = findDuplicateTriggers(parsed.matches);
+
+  const checks: QualityCheck[] = [
+    {
+      id: "readme",
+      label: "README",
+      passed: readmeLength >= MIN_README_LENGTH,
+      detail: !readme
+        ? "No README file"
+        : readmeLength < MIN_README_LENGTH
+          ? `README is only ${readmeLength} characters long`
+          : `${readme} describes the package`,
+    },
+    {
+      id: "homepage",
+      label: "Homepage",
+      passed: homepage !== null,
+      detail: homepage ?? "No homepage in _manifest.yml",
+    },
+    {
+      id: "tags",
+      label: "Tags",
+      passed: pkg.tags.length > 0,
+      detail:
+        pkg.tags.length > 0
+          ? `${pkg.tags.length} tag${pkg.tags.length !== 1 ? "s" : ""}`
+          : "No tags",
+    },
+    {
+      id: "description",
+      label: "Description",
+      passed: pkg.description.trim().length >= MIN_DESCRIPTION_LENGTH,
+      detail: `${pkg.description.trim().length} characters (at least ${MIN_DESCRIPTION_LENGTH} expected)`,
+    },
+    {
+      id: "duplicate-triggers",
+      label: "Unique triggers",
+      passed: duplicates.length === 0,
+      detail:
+        duplicates.length === 0
+          ? "Every trigger is defined once"
+          : `Defined more than once: ${duplicates.join(", ")}`,
+    },
+    {
+      id: "valid-yaml",
+      label: "Valid YAML",
+      passed: yamlErrors.length === 0,
+      detail:
+        yamlErrors.length === 0
+          ? "Every YAML file parses"
+          : `Invalid: ${yamlErrors.join(", ")}`,
+    },
+    {
+      id: "license",
+      label: "License",
+      passed: license !== undefined,
+      detail: license ?? "No LICENSE file",
+    },
+  ];
+
+  return {
+    score: Math.round(
+      (checks.filter((check) => check.passed).length / checks.length) * 100,
+    ),
+    checks,
+  };
+}
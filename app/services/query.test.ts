@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeQueryTerm,
+  isFuzzyTerm,
+  parseQuery,
+  removeQueryTerm,
+  type QueryTerm,
+} from "./query";
+
+const term = (overrides: Partial<QueryTerm>): QueryTerm => ({
+  field: null,
+  value: "",
+  negated: false,
+  quoted: false,
+  start: 0,
+  end: 0,
+  ...overrides,
+});
+
+describe("parseQuery", () => {
+  it("splits the query into plain terms", () => {
+    expect(parseQuery("  emoji  arrows ")).toEqual({
+      terms: [
+        term({ value: "emoji", start: 2, end: 7 }),
+        term({ value: "arrows", start: 9, end: 15 }),
+      ],
+      errors: [],
+      exact: false,
+    });
+  });
+
+  it("parses field qualifiers, case-insensitively", () => {
+    expect(parseQuery("tag:emoji Author:john").terms).toEqual([
+      term({ field: "tag", value: "emoji", start: 0, end: 9 }),
+      term({ field: "author", value: "john", start: 10, end: 21 }),
+    ]);
+  });
+
+  it("parses negated terms", () => {
+    expect(parseQuery("-flags -name:greek").terms).toEqual([
+      term({ value: "flags", negated: true, start: 0, end: 6 }),
+      term({
+        field: "name",
+        value: "greek",
+        negated: true,
+        start: 7,
+        end: 18,
+      }),
+    ]);
+  });
+
+  it("searches a lone dash as text", () => {
+    expect(
+      parseQuery("a - b").terms.map(({ value, negated }) => [value, negated]),
+    ).toEqual([
+      ["a", false],
+      ["-", false],
+      ["b", false],
+    ]);
+  });
+
+  it("parses quoted phrases", () => {
+    expect(parseQuery('"greek letters" author:"John Doe"').terms).toEqual([
+      term({ value: "greek letters", quoted: true, start: 0, end: 15 }),
+      term({
+        field: "author",
+        value: "John Doe",
+        quoted: true,
+        start: 16,
+        end: 33,
+      }),
+    ]);
+  });
+
+  it("searches the rest of the query after a missing closing quote", () => {
+    const query = parseQuery('emoji "smiling face');
+
+    expect(query.terms[1]).toEqual(
+      term({ value: "smiling face", quoted: true, start: 6, end: 19 }),
+    );
+    expect(query.errors).toEqual([
+      { position: 6, message: "Missing closing quote" },
+    ]);
+  });
+
+  it("searches unknown fields as text", () => {
+    const query = parseQuery("color:red");
+
+    expect(query.terms).toEqual([
+      term({ value: "color:red", start: 0, end: 9 }),
+    ]);
+    expect(query.errors).toEqual([
+      { position: 0, message: 'Unknown field "color:", searched as text' },
+    ]);
+  });
+
+  it("reports fields without a value", () => {
+    const query = parseQuery("emoji -tag:");
+
+    expect(query.terms).toEqual([term({ value: "emoji", start: 0, end: 5 })]);
+    expect(query.errors).toEqual([
+      { position: 6, message: 'Missing value after "tag:"' },
+    ]);
+  });
+
+  it("drops empty phrases", () => {
+    expect(parseQuery('"" " "')).toEqual({
+      terms: [],
+      errors: [],
+      exact: false,
+    });
+  });
+
+  it("keeps the exact flag", () => {
+    expect(parseQuery("emoji", true).exact).toBe(true);
+  });
+});
+
+describe("isFuzzyTerm", () => {
+  it("only matches plain terms fuzzily", () => {
+    const [plain, field, quoted, negated] = parseQuery(
+      'emoji tag:emoji "emoji" -emoji',
+    ).terms;
+
+    expect(isFuzzyTerm(plain, false)).toBe(true);
+    expect(isFuzzyTerm(plain, true)).toBe(false);
+    expect(isFuzzyTerm(field, false)).toBe(false);
+    expect(isFuzzyTerm(quoted, false)).toBe(false);
+    expect(isFuzzyTerm(negated, false)).toBe(false);
+  });
+});
+
+describe("removeQueryTerm", () => {
+  it("removes a term and the spaces around it", () => {
+    const input = 'emoji  -tag:"greek letters"  arrows';
+    const [, negated] = parseQuery(input).terms;
+
+    expect(removeQueryTerm(input, negated)).toBe("emoji arrows");
+  });
+});
+
+describe("describeQueryTerm", () => {
+  it("describes a term for display", () => {
+    const [plain, field, phrase] = parseQuery(
+      'emoji -tag:flags "greek letters"',
+    ).terms;
+
+    expect(describeQueryTerm(plain)).toBe("emoji");
+    expect(describeQueryTerm(field)).toBe("not tag: flags");
+    expect(describeQueryTerm(phrase)).toBe('"greek letters"');
+  });
+});
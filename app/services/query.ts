@@ -0,0 +1,143 @@
+/**
+ * Fields a search term can be restricted to, as `<field>:<value>`
+ */
+export const QUERY_FIELDS = ["author", "tag", "name", "trigger"] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+/**
+ * A term of a search query, e.g. `-tag:emoji` or `"greek letters"`
+ */
+export type QueryTerm = {
+  /** Field the term is restricted to, or null to search every field */
+  field: QueryField | null;
+  value: string;
+  /** Excludes the packages matching the term (`-` prefix) */
+  negated: boolean;
+  /** Quoted value: matched literally instead of fuzzily */
+  quoted: boolean;
+  /** Position of the term in the query string, to remove it */
+  start: number;
+  end: number;
+};
+
+export type QueryError = {
+  position: number;
+  message: string;
+};
+
+/**
+ * A search query parsed from the search box
+ */
+export type SearchQuery = {
+  terms: QueryTerm[];
+  errors: QueryError[];
+  /** Match every term literally, without fuzzy search */
+  exact: boolean;
+};
+
+const isQueryField = (field: string): field is QueryField =>
+  (QUERY_FIELDS as readonly string[]).includes(field);
+
+/**
+ * Parses a search query. Parsing never fails: problems are reported as errors
+ * and the offending part of the query is searched as plain text.
+ * @param input - Query typed in the search box, e.g. `emoji -tag:flags`
+ * @param exact - Whether every term is matched literally
+ */
+export function parseQuery(input: string, exact = false): SearchQuery {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === "-" && /\S/.test(input[i + 1] ?? " ");
+    if (negated) {
+      i++;
+    }
+
+    let field: QueryField | null = null;
+    const qualifier = /^([a-z]+):/i.exec(input.slice(i));
+    if (qualifier) {
+      const name = qualifier[1].toLowerCase();
+      if (isQueryField(name)) {
+        field = name;
+        i += qualifier[0].length;
+      } else {
+        errors.push({
+          position: i,
+          message: `Unknown field "${name}:", searched as text`,
+        });
+      }
+    }
+
+    let value: string;
+    const quoted = input[i] === '"';
+    if (quoted) {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ position: i, message: "Missing closing quote" });
+        value = input.slice(i + 1);
+        i = input.length;
+      } else {
+        value = input.slice(i + 1, close);
+        i = close + 1;
+      }
+    } else {
+      value = /^\S*/.exec(input.slice(i))![0];
+      i += value.length;
+    }
+
+    if (value.trim() === "") {
+      if (field) {
+        errors.push({
+          position: start,
+          message: `Missing value after "${field}:"`,
+        });
+      }
+      continue;
+    }
+
+    terms.push({
+      field,
+      value: value.trim(),
+      negated,
+      quoted,
+      start,
+      end: i,
+    });
+  }
+
+  return { terms, errors, exact };
+}
+
+/**
+ * Tells whether a term is matched fuzzily by Fuse, rather than literally
+ */
+export function isFuzzyTerm(term: QueryTerm, exact: boolean): boolean {
+  return !exact && term.field === null && !term.quoted && !term.negated;
+}
+
+/**
+ * Removes a term from a query string
+ * @param input - Query the term was parsed from
+ */
+export function removeQueryTerm(input: string, term: QueryTerm): string {
+  return `${input.slice(0, term.start)} ${input.slice(term.end)}`
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Describes a term for display, e.g. `not tag: emoji`
+ */
+export function describeQueryTerm(term: QueryTerm): string {
+  const value = term.quoted ? `"${term.value}"` : term.value;
+  return `${term.negated ? "not " : ""}${term.field ? `${term.field}: ` : ""}${value}`;
+}
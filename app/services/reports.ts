@@ -0,0 +1,68 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+// Build reports are machine-readable JSON files kept out of the deployed client build
+const REPORTS_DIR = process.env.REPORTS_DIR || "build/reports";
+
+type Report = {
+  state: object;
+  getData: (state: never) => object;
+};
+
+// The build loads the services twice, once for react-router.config.ts and
+// once in the server bundle rendering pages: reports live on globalThis so
+// that both collect into the same state
+const REGISTRY_KEY = Symbol.for("hub-frontend.build-reports");
+const registry: Map<string, Report> = ((
+  globalThis as { [REGISTRY_KEY]?: Map<string, Report> }
+)[REGISTRY_KEY] ??= new Map());
+
+/**
+ * Defines a JSON build report, collected while the build runs and written
+ * when it ends by writeReports. Every instance of the defining module gets
+ * the same state.
+ * @param name - Report file name, without extension
+ * @param initialState - State the report data is collected in
+ * @param getData - Produces the report content from the state
+ * @returns The state of the report
+ */
+export function defineReport<S extends object>(
+  name: string,
+  initialState: S,
+  getData: (state: S) => object,
+): S {
+  const report = registry.get(name);
+  if (report) {
+    return report.state as S;
+  }
+
+  registry.set(name, { state: initialState, getData });
+  return initialState;
+}
+
+/**
+ * Writes every build report. Only called by the buildEnd hook of
+ * react-router.config.ts, so nothing is written outside of builds.
+ */
+export function writeReports() {
+  mkdirSync(REPORTS_DIR, { recursive: true });
+  registry.forEach(({ state, getData }, name) => {
+    const file = path.join(REPORTS_DIR, `${name}.json`);
+    try {
+      writeFileSync(
+        file,
+        JSON.stringify(
+          {
+            generatedAt: new Date().toISOString(),
+            ...(getData as (state: object) => object)(state),
+          },
+          null,
+          2,
+        ),
+      );
+      console.log(`📝 Wrote ${file}`);
+    } catch (error) {
+      console.error(`Failed to write report ${file}:`, error);
+    }
+  });
+}
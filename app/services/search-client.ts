@@ -0,0 +1,126 @@
+import { match } from "ts-pattern";
+import type {
+  SearchIndex,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from "../model/search";
+import {
+  loadSearchIndex,
+  runSearch,
+  type SearchOptions,
+  type SearchResult,
+} from "./search";
+
+/**
+ * Runs the searches of the search page, in a Web Worker when possible
+ */
+export type SearchClient = {
+  /**
+   * Searches the index. Aborting the signal cancels the search if it has not
+   * run yet and rejects the promise with the reason of the abort.
+   */
+  search(options: SearchOptions, signal?: AbortSignal): Promise<SearchResult>;
+};
+
+type PendingSearch = {
+  options: SearchOptions;
+  resolve: (result: SearchResult) => void;
+  reject: (error: unknown) => void;
+};
+
+function startWorker(): Worker | null {
+  // Workers are unavailable when prerendering and in some old browsers
+  if (typeof Worker === "undefined") {
+    return null;
+  }
+  try {
+    return new Worker(new URL("./search.worker.ts", import.meta.url), {
+      type: "module",
+    });
+  } catch (error) {
+    console.warn("⚠️ Failed to start the search worker:", error);
+    return null;
+  }
+}
+
+/**
+ * Creates a client searching a search index in a Web Worker, so that typing
+ * does not block the page. Searches run on the main thread instead when
+ * workers are unavailable, as when the search page loader prerenders its
+ * results, or when the worker fails.
+ */
+export function createSearchClient(index: SearchIndex): SearchClient {
+  const pending = new Map<number, PendingSearch>();
+  let nextId = 0;
+  let worker = startWorker();
+
+  const post = (request: SearchWorkerRequest) => worker?.postMessage(request);
+  const searchOnMainThread = (options: SearchOptions) =>
+    runSearch(index.packages, options);
+
+  const fallBackToMainThread = () => {
+    console.warn("⚠️ Search worker failed, searching on the main thread");
+    worker?.terminate();
+    worker = null;
+    loadSearchIndex(index.packages, index.fuseIndex);
+    pending.forEach(({ options, resolve, reject }) => {
+      try {
+        resolve(searchOnMainThread(options));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    pending.clear();
+  };
+
+  if (worker) {
+    worker.addEventListener(
+      "message",
+      (event: MessageEvent<SearchWorkerResponse>) => {
+        const search = pending.get(event.data.id);
+        pending.delete(event.data.id);
+        match(event.data)
+          .with({ type: "result" }, ({ result }) => search?.resolve(result))
+          .with({ type: "error" }, ({ message }) =>
+            search?.reject(new Error(message)),
+          )
+          .exhaustive();
+      },
+    );
+    worker.addEventListener("error", fallBackToMainThread);
+    post({
+      type: "load",
+      packages: index.packages,
+      fuseIndex: index.fuseIndex,
+    });
+  } else {
+    loadSearchIndex(index.packages, index.fuseIndex);
+  }
+
+  return {
+    search(options, signal) {
+      if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+      }
+      if (!worker) {
+        return Promise.resolve().then(() => searchOnMainThread(options));
+      }
+
+      const id = nextId++;
+      return new Promise<SearchResult>((resolve, reject) => {
+        pending.set(id, { options, resolve, reject });
+        signal?.addEventListener(
+          "abort",
+          () => {
+            if (pending.delete(id)) {
+              post({ type: "cancel", id });
+              reject(signal.reason);
+            }
+          },
+          { once: true },
+        );
+        post({ type: "search", id, options });
+      });
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import type { SearchDocument, SearchIndex } from "../model/search";
+import { getFeedEntries } from "./feeds";
+import {
+  getLatestPackageScores,
+  getLatestPackageTriggers,
+} from "./archive-scan";
+import { getPackagesIndex } from "./packages";
+import { createSearchIndex, selectLatestPerName } from "./search";
+
+let searchIndexPromise: Promise<SearchIndex> | null = null;
+
+async function computeSearchIndex(): Promise<SearchIndex> {
+  const index = await getPackagesIndex();
+  const triggers = await getLatestPackageTriggers();
+
+  const latestPackages = selectLatestPerName(index.packages);
+  const packages: SearchDocument[] = latestPackages.map(
+    ({ id, name, version, title, description, author, tags }) => ({
+      id,
+      name,
+      version,
+      title,
+      description,
+      author,
+      tags,
+      triggers: triggers[name] ?? [],
+    }),
+  );
+
+  // Packages were last updated when their latest version was first seen
+  const published = new Map(
+    (await getFeedEntries()).map((entry) => [
+      entry.package.id,
+      entry.published,
+    ]),
+  );
+  const updatedAt: Record<string, string> = {};
+  latestPackages.forEach(({ id, name }) => {
+    const date = published.get(id);
+    if (date) {
+      updatedAt[name] = date.toISOString();
+    }
+  });
+
+  const versionCounts: Record<string, number> = {};
+  index.packages.forEach((pkg) => {
+    versionCounts[pkg.name] = (versionCounts[pkg.name] ?? 0) + 1;
+  });
+
+  console.log(`🔎 Building search index of ${packages.length} packages`);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    packages,
+    fuseIndex: createSearchIndex(packages),
+    scores: await getLatestPackageScores(),
+    updatedAt,
+    versionCounts,
+  };
+}
+
+/**
+ * Gets the search index of the latest version of every package: the card
+ * fields and triggers of each package, a serialized Fuse index of them and
+ * the figures results are sorted by. Computed once per build.
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+  searchIndexPromise ??= computeSearchIndex();
+  return searchIndexPromise;
+}
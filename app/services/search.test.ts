@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { PackageSummary } from "../model/packages";
+import {
+  countTagFacets,
+  filterByTags,
+  type TagCount,
+  type TagFilter,
+} from "./search";
+
+const pkg = (name: string, tags: string[]): PackageSummary => ({
+  id: `${name}-1.0.0`,
+  name,
+  version: "1.0.0",
+  title: name,
+  description: "d",
+  author: "a",
+  tags,
+});
+
+const packages = [
+  pkg("smileys", ["emoji", "unicode"]),
+  pkg("kaomoji", ["kaomoji", "emoji"]),
+  pkg("arrows", ["arrows", "unicode"]),
+  pkg("greek", ["greek", "math", "unicode"]),
+  pkg("dates", ["date"]),
+];
+
+const byTag = (counts: TagCount[]) =>
+  Object.fromEntries(counts.map(({ tag, count }) => [tag, count]));
+
+// What each count promises: the number of results once the tag is included,
+// or for an excluded tag, once it is included instead
+const expectedCount = (filter: TagFilter, tag: string): number => {
+  if (filter.included.includes(tag)) {
+    return filterByTags(packages, filter).length;
+  }
+  return filterByTags(packages, {
+    ...filter,
+    included: [...filter.included, tag],
+    excluded: filter.excluded.filter((t) => t !== tag),
+  }).length;
+};
+
+describe("countTagFacets", () => {
+  it("counts the packages having each tag without a filter", () => {
+    expect(
+      byTag(
+        countTagFacets(packages, { included: [], excluded: [], mode: "any" }),
+      ),
+    ).toEqual({
+      emoji: 2,
+      unicode: 3,
+      kaomoji: 1,
+      arrows: 1,
+      greek: 1,
+      math: 1,
+      date: 1,
+    });
+  });
+
+  it("adds the packages of each tag to the results in any mode", () => {
+    const counts = byTag(
+      countTagFacets(packages, {
+        included: ["emoji"],
+        excluded: [],
+        mode: "any",
+      }),
+    );
+
+    expect(counts.emoji).toBe(2);
+    expect(counts.unicode).toBe(4);
+    expect(counts.date).toBe(3);
+  });
+
+  it("narrows the results down to each tag in all mode", () => {
+    const counts = byTag(
+      countTagFacets(packages, {
+        included: ["unicode"],
+        excluded: [],
+        mode: "all",
+      }),
+    );
+
+    expect(counts).toEqual({
+      unicode: 3,
+      emoji: 1,
+      arrows: 1,
+      greek: 1,
+      math: 1,
+    });
+  });
+
+  it("lists included and excluded tags even without results", () => {
+    const counts = byTag(
+      countTagFacets(packages, {
+        included: ["date", "emoji"],
+        excluded: ["kaomoji"],
+        mode: "all",
+      }),
+    );
+
+    expect(counts.date).toBe(0);
+    expect(counts.emoji).toBe(0);
+    expect(counts.kaomoji).toBe(0);
+  });
+
+  it.each<TagFilter>([
+    { included: [], excluded: ["unicode"], mode: "any" },
+    { included: ["emoji", "math"], excluded: [], mode: "any" },
+    { included: ["unicode"], excluded: ["greek"], mode: "any" },
+    { included: [], excluded: ["date"], mode: "all" },
+    { included: ["emoji"], excluded: ["kaomoji"], mode: "all" },
+    { included: ["unicode", "math"], excluded: [], mode: "all" },
+  ])("counts the results of including each tag for %j", (filter) => {
+    const counts = countTagFacets(packages, filter);
+
+    counts.forEach(({ tag, count }) => {
+      expect(count, tag).toBe(expectedCount(filter, tag));
+    });
+    // Tags of the packages each would bring into the results are all listed
+    const listed = new Set(counts.map(({ tag }) => tag));
+    packages
+      .flatMap(({ tags }) => tags)
+      .filter((tag) =>
+        filterByTags(packages, {
+          ...filter,
+          included: [...filter.included, tag],
+        }).some(({ tags }) => tags.includes(tag)),
+      )
+      .forEach((tag) => expect(listed, tag).toContain(tag));
+    // Most results first
+    expect(counts.map(({ count }) => count)).toEqual(
+      counts.map(({ count }) => count).sort((a, b) => b - a),
+    );
+  });
+});
@@ -1,42 +1,262 @@
-import Fuse from "fuse.js";
-import type { Package } from "../model/packages";
+import Fuse, { type FuseIndex } from "fuse.js";
+import { match } from "ts-pattern";
+import { selectLatestVersion } from "../lib/semver";
+import { splitAuthors, type PackageSummary } from "../model/packages";
+import { canonicalizeTag } from "../model/taxonomy";
+import {
+  isFuzzyTerm,
+  parseQuery,
+  type QueryField,
+  type QueryTerm,
+  type SearchQuery,
+} from "./query";
 
 /**
- * Performs fuzzy text search across package fields using Fuse.js
+ * Package enriched with the triggers extracted from its archive
+ */
+export type SearchablePackage = PackageSummary & {
+  triggers?: string[];
+};
+
+// Searched fields, in the order of the serialized index records
+const FUSE_KEYS = ["name", "author", "description", "title", "triggers"];
+
+const FUSE_OPTIONS = {
+  keys: FUSE_KEYS,
+  threshold: 0.4, // Lower = more strict matching (0-1 scale)
+  includeMatches: true,
+};
+
+// Distinct queries remembered per package list
+const MAX_CACHED_QUERIES = 50;
+
+/**
+ * Serialized Fuse index of a package list, see createSearchIndex
+ */
+export type SerializedSearchIndex = ReturnType<
+  FuseIndex<SearchablePackage>["toJSON"]
+>;
+
+type Searcher<T extends SearchablePackage> = {
+  fuse: Fuse<T>;
+  /** Hits of the latest queries, by query */
+  hits: Map<string, TextSearchHit<T>[]>;
+};
+
+// Searchers by package list: a list is indexed once, and each query searched
+// once, for as long as the list is in use
+const searchers = new WeakMap<object, Searcher<SearchablePackage>>();
+
+function getSearcher<T extends SearchablePackage>(
+  packages: T[],
+  index?: SerializedSearchIndex,
+): Searcher<T> {
+  let searcher = searchers.get(packages) as Searcher<T> | undefined;
+  if (!searcher || index) {
+    searcher = {
+      fuse: new Fuse(
+        packages,
+        FUSE_OPTIONS,
+        index ? Fuse.parseIndex<T>(index) : undefined,
+      ),
+      hits: new Map(),
+    };
+    searchers.set(packages, searcher as Searcher<SearchablePackage>);
+  }
+  return searcher;
+}
+
+/**
+ * Indexes packages for text search, for the index to be built once (e.g. at
+ * build time) and loaded with loadSearchIndex
+ */
+export function createSearchIndex(
+  packages: SearchablePackage[],
+): SerializedSearchIndex {
+  return Fuse.createIndex(FUSE_KEYS, packages).toJSON();
+}
+
+/**
+ * Uses a prebuilt index for the text searches of a package list
+ * @param packages - Packages the index was created from, in the same order
+ * @param index - Index returned by createSearchIndex
+ */
+export function loadSearchIndex(
+  packages: SearchablePackage[],
+  index: SerializedSearchIndex,
+): void {
+  getSearcher(packages, index);
+}
+
+/**
+ * Matched range of a text, as [first, last] character indices (inclusive)
+ */
+export type HighlightRange = [number, number];
+
+/**
+ * Fields of a package card that can show where a query matched
+ */
+export type HighlightField =
+  | "title"
+  | "name"
+  | "description"
+  | "author"
+  | "trigger";
+
+export type Highlights = Partial<Record<HighlightField, HighlightRange[]>>;
+
+/**
+ * A text search result, with the trigger that made it match (if any) and the
+ * matched ranges of each field
+ */
+export type TextSearchHit<T extends SearchablePackage> = {
+  item: T;
+  matchedTrigger?: string;
+  highlights?: Highlights;
+};
+
+// Fuse keys to the card fields showing them
+const HIGHLIGHT_FIELDS: Record<string, HighlightField> = {
+  title: "title",
+  name: "name",
+  description: "description",
+  author: "author",
+  triggers: "trigger",
+};
+
+/**
+ * Drops ranges too short to mean anything: fuzzy matching reports single
+ * scattered characters, which would make highlights noisy
+ */
+function meaningfulRanges(
+  indices: readonly [number, number][],
+  query: string,
+): HighlightRange[] {
+  const minLength = Math.min(2, query.length);
+  return indices
+    .filter(([start, end]) => end - start + 1 >= minLength)
+    .map(([start, end]) => [start, end]);
+}
+
+/**
+ * Performs fuzzy text search across package fields and triggers using Fuse.js.
+ * Packages are indexed on their first search, and hits are memoized per query:
+ * search the same array to benefit from both.
  * @param packages - Array of packages to search
  * @param query - Search query string
- * @returns Filtered packages matching the query
+ * @returns Hits matching the query, in relevance order
  */
-export function textSearch(packages: Package[], query: string): Package[] {
+export function textSearchWithMatches<T extends SearchablePackage>(
+  packages: T[],
+  query: string,
+): TextSearchHit<T>[] {
   if (!query || query.trim() === "") {
-    return packages;
+    return packages.map((item) => ({ item }));
+  }
+
+  const { fuse, hits } = getSearcher(packages);
+  const cached = hits.get(query);
+  if (cached) {
+    return cached;
   }
 
-  const fuse = new Fuse(packages, {
-    keys: ["name", "author", "description", "title"],
-    threshold: 0.4, // Lower = more strict matching (0-1 scale)
+  const lowerQuery = query.trim().toLowerCase();
+
+  const queryHits = fuse.search(query).map((result) => {
+    // Report a trigger only when it explains the hit: either it contains the
+    // query verbatim, or no other (visible) field matched
+    const matches = result.matches ?? [];
+    const triggerMatches = matches
+      .filter((m) => m.key === "triggers" && m.value !== undefined)
+      .map((m) => m.value as string);
+    const onlyTriggersMatched = matches.every((m) => m.key === "triggers");
+    const matchedTrigger =
+      triggerMatches.find((t) => t.toLowerCase().includes(lowerQuery)) ??
+      (onlyTriggersMatched ? triggerMatches[0] : undefined);
+
+    const highlights: Highlights = {};
+    matches.forEach((m) => {
+      const field = m.key ? HIGHLIGHT_FIELDS[m.key] : undefined;
+      // Only the reported trigger is shown, so only its ranges are kept
+      if (
+        !field ||
+        highlights[field] ||
+        (field === "trigger" && m.value !== matchedTrigger)
+      ) {
+        return;
+      }
+      const ranges = meaningfulRanges(m.indices, lowerQuery);
+      if (ranges.length > 0) {
+        highlights[field] = ranges;
+      }
+    });
+
+    return { item: result.item, matchedTrigger, highlights };
   });
 
-  return fuse.search(query).map((result) => result.item);
+  // Forget the oldest query first
+  if (hits.size >= MAX_CACHED_QUERIES) {
+    hits.delete(hits.keys().next().value!);
+  }
+  hits.set(query, queryHits);
+  return queryHits;
 }
 
 /**
- * Filters packages by tags (OR logic - package matches if it has ANY selected tag)
+ * Performs fuzzy text search across package fields and triggers using Fuse.js
+ * @param packages - Array of packages to search
+ * @param query - Search query string
+ * @returns Filtered packages matching the query
+ */
+export function textSearch<T extends SearchablePackage>(
+  packages: T[],
+  query: string,
+): T[] {
+  return textSearchWithMatches(packages, query).map((hit) => hit.item);
+}
+
+/**
+ * How included tags combine: packages need any of them, or all of them
+ */
+export type TagMatchMode = "any" | "all";
+
+/**
+ * Tag filters of the search page
+ */
+export type TagFilter = {
+  /** Lowercase tags packages must have, combined according to mode */
+  included: string[];
+  /** Lowercase tags packages must not have */
+  excluded: string[];
+  mode: TagMatchMode;
+};
+
+/**
+ * Filters packages by tags. Tag matching is case-insensitive.
  * @param packages - Array of packages to filter
- * @param tags - Array of tag names to filter by
- * @returns Filtered packages containing at least one of the tags
+ * @param filter - Tags to include (any or all of them) and to exclude
+ * @returns Filtered packages
  */
-export function filterByTags(packages: Package[], tags: string[]): Package[] {
-  if (!tags || tags.length === 0) {
+export function filterByTags<T extends PackageSummary>(
+  packages: T[],
+  { included, excluded, mode }: TagFilter,
+): T[] {
+  if (included.length === 0 && excluded.length === 0) {
     return packages;
   }
 
-  // Case-insensitive tag matching
-  const lowerTags = tags.map((t) => t.toLowerCase());
+  const lowerIncluded = included.map((t) => t.toLowerCase());
+  const lowerExcluded = excluded.map((t) => t.toLowerCase());
 
-  return packages.filter((pkg) =>
-    pkg.tags.some((pkgTag) => lowerTags.includes(pkgTag.toLowerCase())),
-  );
+  return packages.filter((pkg) => {
+    const pkgTags = pkg.tags.map((t) => t.toLowerCase());
+    const has = (tag: string) => pkgTags.includes(tag);
+    return (
+      !lowerExcluded.some(has) &&
+      (lowerIncluded.length === 0 ||
+        (mode === "all" ? lowerIncluded.every(has) : lowerIncluded.some(has)))
+    );
+  });
 }
 
 /**
@@ -49,7 +269,7 @@ export type TagCount = {
   count: number;
 };
 
-export function countTags(packages: Package[]): TagCount[] {
+export function countTags(packages: PackageSummary[]): TagCount[] {
   // Extract all unique tags
   const tagCounts = new Map<string, number>();
 
@@ -67,62 +287,361 @@ export function countTags(packages: Package[]): TagCount[] {
 }
 
 /**
- * Applies both text and tag filters to packages
- * @param packages - Array of packages
- * @param textQuery - Optional text search query
- * @param selectedTags - Optional array of tag filters
- * @returns Filtered packages
+ * Counts tags for the tag filter, so each count tells how many results there
+ * would be by including the tag. In "all" mode, including a tag keeps the
+ * current results having it; in "any" mode, it adds the packages having it to
+ * the current results (which are all packages not excluded while no tag is
+ * included). Included tags count the current results, and excluded tags the
+ * results of including them instead.
+ * Included and excluded tags are always listed, even when no package is left.
+ * @param packages - Packages matching the text query, before tag filtering
+ * @param filter - Current tag filter
+ * @returns Array of {tag, count} sorted by count descending
  */
-export function applyFilters(
-  packages: Package[],
-  textQuery: string,
-  selectedTags: string[],
-): Package[] {
-  let results = packages;
+export function countTagFacets(
+  packages: PackageSummary[],
+  filter: TagFilter,
+): TagCount[] {
+  const results = filterByTags(packages, filter);
 
-  // Apply text search first
-  if (textQuery && textQuery.trim() !== "") {
-    results = textSearch(results, textQuery);
-  }
+  const counts = match(filter)
+    .with({ mode: "all" }, () => countTags(results))
+    .with({ mode: "any" }, ({ included, excluded }) => {
+      const current = included.length > 0 ? results : [];
+      const inResults = new Set(current);
+      const notExcluded = filterByTags(packages, {
+        included: [],
+        excluded,
+        mode: "any",
+      });
+      const added = new Map(
+        countTags(notExcluded.filter((pkg) => !inResults.has(pkg))).map(
+          ({ tag, count }) => [tag, count],
+        ),
+      );
+      return countTags(notExcluded).map(({ tag }) => ({
+        tag,
+        count: current.length + (added.get(tag) ?? 0),
+      }));
+    })
+    .exhaustive();
 
-  // Then apply tag filtering
-  if (selectedTags && selectedTags.length > 0) {
-    results = filterByTags(results, selectedTags);
-  }
+  const listed = new Set(counts.map(({ tag }) => tag));
+  const included = filter.included
+    .filter((tag) => !listed.has(tag))
+    .map((tag) => ({ tag, count: results.length }));
+  const excluded = filter.excluded.map((tag) => ({
+    tag,
+    count: filterByTags(packages, {
+      ...filter,
+      included: [...filter.included, tag],
+      excluded: filter.excluded.filter((t) => t !== tag),
+    }).length,
+  }));
+
+  return [
+    ...counts.filter(({ tag }) => !filter.excluded.includes(tag)),
+    ...included,
+    ...excluded,
+  ].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Gets the values of a package a query term is matched against
+ */
+function termValues(
+  pkg: SearchablePackage,
+  field: QueryField | null,
+): string[] {
+  return match(field)
+    .with("author", () => [pkg.author, ...splitAuthors(pkg.author)])
+    .with("tag", () => pkg.tags)
+    .with("name", () => [pkg.name])
+    .with("trigger", () => pkg.triggers ?? [])
+    .with(null, () => [
+      pkg.name,
+      pkg.title,
+      pkg.description,
+      pkg.author,
+      ...(pkg.triggers ?? []),
+    ])
+    .exhaustive();
+}
+
+/**
+ * Tells whether a package matches a term literally. Field terms must equal
+ * the value when quoted or in exact mode; otherwise terms must contain it.
+ */
+function matchesTerm(
+  pkg: SearchablePackage,
+  term: QueryTerm,
+  exact: boolean,
+): boolean {
+  // Tags of the index are canonical, so are tag terms
+  const needle = (
+    term.field === "tag" ? canonicalizeTag(term.value).tag : term.value
+  ).toLowerCase();
+  const equality = term.field !== null && (term.quoted || exact);
+  return termValues(pkg, term.field).some((value) =>
+    equality
+      ? value.toLowerCase() === needle
+      : value.toLowerCase().includes(needle),
+  );
+}
 
-  return results;
+/**
+ * Finds every occurrence of a value in a text, ignoring case
+ */
+function substringRanges(text: string, value: string): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+  const lowerText = text.toLowerCase();
+  const needle = value.toLowerCase();
+  for (
+    let i = lowerText.indexOf(needle);
+    needle !== "" && i !== -1;
+    i = lowerText.indexOf(needle, i + needle.length)
+  ) {
+    ranges.push([i, i + needle.length - 1]);
+  }
+  return ranges;
 }
 
 /**
- * Selects only the latest version for each package name.
- * Uses numeric localeCompare on the validated semver-like version string.
+ * Adds the highlights of the terms matched literally to a search hit
  */
-export function selectLatestPerName(packages: Package[]): Package[] {
-  const byName = new Map<string, Package>();
+function highlightTerms<T extends SearchablePackage>(
+  hit: TextSearchHit<T>,
+  terms: QueryTerm[],
+): TextSearchHit<T> {
+  const { item } = hit;
+  const highlights: Highlights = { ...hit.highlights };
+  let { matchedTrigger } = hit;
 
-  const toParts = (v: string): [number, number, number] => {
-    const [maj, min, pat] = v.split(".").map((n) => parseInt(n, 10));
-    return [maj || 0, min || 0, pat || 0];
+  // Highlights a value in a field, telling whether it was found
+  const add = (field: HighlightField, text: string, value: string) => {
+    const ranges = substringRanges(text, value);
+    if (ranges.length > 0) {
+      highlights[field] = [...(highlights[field] ?? []), ...ranges];
+    }
+    return ranges.length > 0;
   };
 
-  const cmp = (a: string, b: string): number => {
-    const [amj, ami, ap] = toParts(a);
-    const [bmj, bmi, bp] = toParts(b);
-    if (amj !== bmj) return amj - bmj;
-    if (ami !== bmi) return ami - bmi;
-    return ap - bp;
+  terms.forEach((term) => {
+    const visibleFields: [HighlightField, string, boolean][] = [
+      ["name", item.name, term.field === null || term.field === "name"],
+      ["title", item.title, term.field === null],
+      ["description", item.description, term.field === null],
+      ["author", item.author, term.field === null || term.field === "author"],
+    ];
+    const visible = visibleFields
+      .filter(([, , searched]) => searched)
+      .map(([field, text]) => add(field, text, term.value))
+      .some(Boolean);
+
+    // Like for fuzzy hits, report a trigger only when it explains the match
+    if (term.field === "trigger" || (term.field === null && !visible)) {
+      matchedTrigger ??= item.triggers?.find((trigger) =>
+        trigger.toLowerCase().includes(term.value.toLowerCase()),
+      );
+      if (matchedTrigger) {
+        add("trigger", matchedTrigger, term.value);
+      }
+    }
+  });
+
+  return { item, matchedTrigger, highlights };
+}
+
+/**
+ * Executes a search query and tag filters on packages
+ * @param packages - Array of packages
+ * @param query - Query parsed with parseQuery
+ * @param tagFilter - Tags to include and exclude
+ * @returns Hits matching the query and tags, in relevance order
+ */
+export function applyFilters<T extends SearchablePackage>(
+  packages: T[],
+  query: SearchQuery,
+  tagFilter: TagFilter,
+): TextSearchHit<T>[] {
+  // The remaining words are searched fuzzily over every package, so that the
+  // search is memoized, then field, quoted and negated terms filter literally
+  const literalTerms = query.terms.filter(
+    (term) => !isFuzzyTerm(term, query.exact),
+  );
+  const fuzzyText = query.terms
+    .filter((term) => isFuzzyTerm(term, query.exact))
+    .map((term) => term.value)
+    .join(" ");
+
+  const positiveTerms = literalTerms.filter(
+    (term) => !term.negated && term.field !== "tag",
+  );
+  const hits = textSearchWithMatches(packages, fuzzyText)
+    .filter((hit) =>
+      literalTerms.every(
+        (term) => matchesTerm(hit.item, term, query.exact) !== term.negated,
+      ),
+    )
+    .map((hit) => highlightTerms(hit, positiveTerms));
+
+  const tagged = new Set(
+    filterByTags(
+      hits.map((hit) => hit.item),
+      tagFilter,
+    ),
+  );
+  return hits.filter((hit) => tagged.has(hit.item));
+}
+
+/**
+ * Search of the search page: the text typed in the search box and the tag
+ * filters
+ */
+export type SearchOptions = {
+  query: string;
+  /** Match every term literally, without fuzzy search */
+  exact: boolean;
+  tagFilter: TagFilter;
+};
+
+/**
+ * A package matching a search, by id, with what made it match
+ */
+export type SearchResultHit = {
+  id: string;
+  matchedTrigger?: string;
+  highlights?: Highlights;
+};
+
+export type SearchResult = {
+  /** Packages matching the query and tag filters, in relevance order */
+  hits: SearchResultHit[];
+  /** Tag facets of the packages matching the query, see countTagFacets */
+  tagCounts: TagCount[];
+};
+
+/**
+ * Runs a search of the search page: executes the query, then the tag filters,
+ * and counts the tag facets of the packages matching the query. Results only
+ * reference packages by id so that they are cheap to send from a worker.
+ */
+export function runSearch<T extends SearchablePackage>(
+  packages: T[],
+  { query, exact, tagFilter }: SearchOptions,
+): SearchResult {
+  const textHits = applyFilters(packages, parseQuery(query, exact), {
+    included: [],
+    excluded: [],
+    mode: "any",
+  });
+  const textMatches = textHits.map((hit) => hit.item);
+  const tagged = new Set(filterByTags(textMatches, tagFilter));
+
+  return {
+    hits: textHits
+      .filter((hit) => tagged.has(hit.item))
+      .map(({ item, matchedTrigger, highlights }) => ({
+        id: item.id,
+        matchedTrigger,
+        highlights,
+      })),
+    tagCounts: countTagFacets(textMatches, tagFilter),
   };
+}
+
+/**
+ * Selects only the latest version for each package name: its highest stable
+ * release, or its highest pre-release when it has no stable release.
+ */
+export function selectLatestPerName<T extends PackageSummary>(
+  packages: T[],
+): T[] {
+  const byName = new Map<string, T[]>();
 
   for (const pkg of packages) {
-    const existing = byName.get(pkg.name);
-    if (!existing) {
-      byName.set(pkg.name, pkg);
-      continue;
-    }
-    if (cmp(pkg.version, existing.version) > 0) {
-      byName.set(pkg.name, pkg);
+    const versions = byName.get(pkg.name);
+    if (versions) {
+      versions.push(pkg);
+    } else {
+      byName.set(pkg.name, [pkg]);
     }
   }
 
-  return Array.from(byName.values());
+  return Array.from(byName.values()).flatMap(
+    (versions) => selectLatestVersion(versions) ?? [],
+  );
+}
+
+/**
+ * Orders of the search results, as ?sort=<key>
+ */
+export const SORT_KEYS = [
+  "relevance",
+  "name",
+  "updated",
+  "versions",
+  "triggers",
+  "quality",
+] as const;
+
+export type SortKey = (typeof SORT_KEYS)[number];
+
+/**
+ * Per-package figures the results can be sorted by, keyed by package name
+ */
+export type SortMetrics = {
+  /** When the latest version was first published (ISO date) */
+  updatedAt: Record<string, string>;
+  versionCounts: Record<string, number>;
+  scores: Record<string, number>;
+};
+
+/**
+ * Resolves the sort order requested in the URL. Relevance only means something
+ * for a text query: without one, results are sorted by name.
+ * @param param - Value of the sort URL parameter, if any
+ * @param hasQuery - Whether a text query is present
+ */
+export function resolveSortKey(
+  param: string | null,
+  hasQuery: boolean,
+): SortKey {
+  const defaultKey = hasQuery ? "relevance" : "name";
+  const key = SORT_KEYS.find((k) => k === param);
+  return key && (key !== "relevance" || hasQuery) ? key : defaultKey;
+}
+
+/**
+ * Sorts packages. The sort is stable, so packages that compare equal keep
+ * their relevance order; relevance keeps the order as is.
+ * @param packages - Packages in relevance order
+ * @param sort - Sort order
+ * @param metrics - Figures to sort by
+ */
+export function sortPackages<T extends SearchablePackage>(
+  packages: T[],
+  sort: SortKey,
+  { updatedAt, versionCounts, scores }: SortMetrics,
+): T[] {
+  const descending = (value: (pkg: T) => number) => (a: T, b: T) =>
+    value(b) - value(a);
+
+  const compare = match(sort)
+    .returnType<((a: T, b: T) => number) | null>()
+    .with("relevance", () => null)
+    .with(
+      "name",
+      () => (a: T, b: T) =>
+        a.title.localeCompare(b.title) || a.name.localeCompare(b.name),
+    )
+    .with("updated", () =>
+      descending((pkg) => Date.parse(updatedAt[pkg.name] ?? "") || 0),
+    )
+    .with("versions", () => descending((pkg) => versionCounts[pkg.name] ?? 0))
+    .with("triggers", () => descending((pkg) => pkg.triggers?.length ?? 0))
+    .with("quality", () => descending((pkg) => scores[pkg.name] ?? 0))
+    .exhaustive();
+
+  return compare ? [...packages].sort(compare) : packages;
 }
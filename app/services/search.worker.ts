@@ -0,0 +1,44 @@
+import { match } from "ts-pattern";
+import type {
+  SearchDocument,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from "../model/search";
+import { loadSearchIndex, runSearch, type SearchOptions } from "./search";
+
+// Search worker, see createSearchClient
+
+let packages: SearchDocument[] = [];
+
+// Searches received and not cancelled yet, by id
+const queued = new Set<number>();
+
+const respond = (response: SearchWorkerResponse) => postMessage(response);
+
+function run(id: number, options: SearchOptions) {
+  if (!queued.delete(id)) {
+    return;
+  }
+  try {
+    respond({ type: "result", id, result: runSearch(packages, options) });
+  } catch (error) {
+    respond({ type: "error", id, message: String(error) });
+  }
+}
+
+addEventListener("message", (event: MessageEvent<SearchWorkerRequest>) => {
+  match(event.data)
+    .with({ type: "load" }, (request) => {
+      packages = request.packages;
+      loadSearchIndex(packages, request.fuseIndex);
+    })
+    .with({ type: "search" }, ({ id, options }) => {
+      // Run after the messages already received, which may cancel it
+      queued.add(id);
+      setTimeout(() => run(id, options));
+    })
+    .with({ type: "cancel" }, ({ id }) => {
+      queued.delete(id);
+    })
+    .exhaustive();
+});
@@ -0,0 +1,16 @@
+// Public origin of the deployed site (see "homepage" in package.json),
+// used to build the absolute URLs of sitemaps and feeds
+export const SITE_ORIGIN = (
+  process.env.SITE_ORIGIN || "https://matteopellegrino.dev"
+).replace(/\/+$/, "");
+
+// Path the site is served under
+export const BASENAME = import.meta.env.PROD ? "/hub-frontend-new/" : "/";
+
+/**
+ * Builds the absolute URL of a page of the site
+ * @param path - Route path, e.g. "/search"
+ */
+export function absoluteUrl(path: string): string {
+  return `${SITE_ORIGIN}${`${BASENAME}${path}`.replace(/\/\/+/g, "/")}`;
+}
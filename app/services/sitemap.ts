@@ -0,0 +1,111 @@
+import { match } from "ts-pattern";
+import { escapeXml } from "../lib/utils";
+import { getAuthorSlugs } from "./authors";
+import { getTagSlugs } from "./tags";
+import {
+  getAllPackageVersionPaths,
+  getIndexLastUpdate,
+  getUniquePackageNames,
+} from "./packages";
+
+// Sitemaps referenced by the sitemap index, served at /sitemaps/<name>.xml
+export const SITEMAPS = [
+  "pages",
+  "packages",
+  "versions",
+  "authors",
+  "tags",
+] as const;
+
+export type SitemapName = (typeof SITEMAPS)[number];
+
+export type SitemapEntry = {
+  /** Route path, e.g. "/lorem/v/1.0.0" */
+  path: string;
+  lastmod?: Date;
+};
+
+/**
+ * Renders a sitemap listing pages of the site
+ * @param entries - Pages to list
+ * @param toUrl - Turns a route path into an absolute URL
+ */
+export function renderSitemap(
+  entries: SitemapEntry[],
+  toUrl: (path: string) => string,
+): string {
+  const urls = entries.map(({ path, lastmod }) =>
+    [
+      "  <url>",
+      `    <loc>${escapeXml(toUrl(encodeURI(path)))}</loc>`,
+      ...(lastmod
+        ? [`    <lastmod>${lastmod.toISOString().slice(0, 10)}</lastmod>`]
+        : []),
+      "  </url>",
+    ].join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Renders a sitemap index referencing other sitemaps
+ * @param sitemapUrls - Absolute URLs of the sitemaps
+ * @param lastmod - Date of the last change of the sitemaps
+ */
+export function renderSitemapIndex(
+  sitemapUrls: string[],
+  lastmod: Date,
+): string {
+  const sitemaps = sitemapUrls.map((url) =>
+    [
+      "  <sitemap>",
+      `    <loc>${escapeXml(url)}</loc>`,
+      `    <lastmod>${lastmod.toISOString().slice(0, 10)}</lastmod>`,
+      "  </sitemap>",
+    ].join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    "</sitemapindex>",
+    "",
+  ].join("\n");
+}
+
+export function isSitemapName(name: string): name is SitemapName {
+  return (SITEMAPS as readonly string[]).includes(name);
+}
+
+/**
+ * Lists the pages of a sitemap. The index only records when it was last
+ * updated, so every page shares that date as its lastmod.
+ */
+export async function getSitemapEntries(
+  name: SitemapName,
+): Promise<SitemapEntry[]> {
+  const lastmod = await getIndexLastUpdate();
+  const paths = await match(name)
+    .with("pages", async () => ["/", "/search", "/conflicts", "/tags"])
+    .with("packages", async () =>
+      (await getUniquePackageNames()).map((packageName) => `/${packageName}`),
+    )
+    .with("versions", () => getAllPackageVersionPaths())
+    .with("authors", async () =>
+      (await getAuthorSlugs()).map((slug) => `/author/${slug}`),
+    )
+    .with("tags", async () =>
+      (await getTagSlugs()).map((slug) => `/tag/${slug}`),
+    )
+    .exhaustive();
+
+  return paths.map((path) => ({ path, lastmod }));
+}
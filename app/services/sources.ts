@@ -0,0 +1,299 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { parse as parseYaml } from "yaml";
+import type { Package, RejectedPackage } from "../model/packages";
+import { cacheIndex, getCachedIndex } from "./cache";
+
+/**
+ * Package index as loaded by a source
+ */
+export type LoadedIndex = {
+  /** The index, not validated yet */
+  index: unknown;
+  /** Packages the source could not turn into index entries */
+  rejected: RejectedPackage[];
+};
+
+/**
+ * Where the package index comes from. Sources only load the raw index:
+ * validation and filtering are shared by every source.
+ */
+export type IndexSource = {
+  /** Location of the index, for logs */
+  location: string;
+  loadIndex: () => Promise<LoadedIndex>;
+};
+
+/**
+ * Reads the content at a URL, from disk for file:// URLs
+ * @throws Error if the file cannot be read or the response is not successful
+ */
+export async function readUrl(url: string): Promise<ArrayBuffer> {
+  if (url.startsWith("file://")) {
+    const content = await readFile(fileURLToPath(url));
+    return content.buffer.slice(
+      content.byteOffset,
+      content.byteOffset + content.byteLength,
+    ) as ArrayBuffer;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch ${url}: ${response.status} ${response.statusText}`,
+    );
+  }
+  return response.arrayBuffer();
+}
+
+const readUrlText = async (url: string): Promise<string> =>
+  new TextDecoder().decode(await readUrl(url));
+
+/**
+ * Index published at an HTTP URL, kept in the disk cache while fresh enough.
+ * Falls back to the last cached index when it cannot be fetched (e.g. offline).
+ */
+export function createRemoteIndexSource(url: string): IndexSource {
+  return {
+    location: url,
+    loadIndex: async () => {
+      const cached = await getCachedIndex(url);
+      if (cached !== null) {
+        console.log("💾 Using package index from disk cache");
+        return { index: JSON.parse(cached), rejected: [] };
+      }
+
+      try {
+        console.log("🌐 Fetching package index from:", url);
+        const content = await readUrlText(url);
+        await cacheIndex(url, content);
+        return { index: JSON.parse(content), rejected: [] };
+      } catch (error) {
+        const stale = await getCachedIndex(url, true);
+        if (stale === null) {
+          throw error;
+        }
+        console.warn(
+          `⚠️ ${error}. Using the last cached package index instead`,
+        );
+        return { index: JSON.parse(stale), rejected: [] };
+      }
+    },
+  };
+}
+
+/**
+ * Index JSON file on disk, in the same format as the published index.
+ * Its archive URLs may be file:// URLs of zip files or package directories.
+ */
+export function createFileIndexSource(file: string): IndexSource {
+  return {
+    location: file,
+    loadIndex: async () => {
+      console.log("📄 Reading package index from:", file);
+      return { index: JSON.parse(await readFile(file, "utf-8")), rejected: [] };
+    },
+  };
+}
+
+/**
+ * Lists the subdirectories of a directory, hidden ones excluded
+ */
+async function listDirectories(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+type HubPackage =
+  | { entry: Record<string, unknown>; modified: number }
+  | { rejected: RejectedPackage };
+
+/**
+ * Builds the index entry of a package version directory of a hub checkout
+ * from its _manifest.yml. Directory names stand in for a missing name or version.
+ * @returns The raw entry, the rejection of a malformed manifest, or null if
+ * the directory has no manifest
+ */
+async function readHubPackage(
+  dir: string,
+  name: string,
+  version: string,
+): Promise<HubPackage | null> {
+  const manifestFile = path.join(dir, "_manifest.yml");
+  let content: string;
+  let modified: number;
+  try {
+    content = await readFile(manifestFile, "utf-8");
+    modified = (await stat(manifestFile)).mtimeMs;
+  } catch {
+    console.warn(`⚠️ Skipping ${dir}: no _manifest.yml`);
+    return null;
+  }
+
+  const reject = (message: string): HubPackage => {
+    console.warn(`⚠️ Skipping ${dir}: malformed _manifest.yml: ${message}`);
+    return {
+      rejected: {
+        name,
+        version,
+        issues: [{ field: "_manifest.yml", message }],
+      },
+    };
+  };
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(content) ?? {};
+  } catch (error) {
+    return reject(error instanceof Error ? error.message : String(error));
+  }
+
+  // A scalar or a list would only contribute stray fields once spread
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    const kind = Array.isArray(parsed) ? "list" : typeof parsed;
+    return reject(`Expected a mapping of manifest fields, got a ${kind}`);
+  }
+  const manifest = parsed as Record<string, unknown>;
+
+  const homepage = manifest.homepage;
+  return {
+    entry: {
+      name,
+      version,
+      ...manifest,
+      tags: manifest.tags ?? [],
+      // Files are read from the directory: there is no archive or hash to fetch
+      archive_url: pathToFileURL(dir).href,
+      archive_sha256_url: "",
+      ...(typeof homepage === "string" ? { repositoryHome: homepage } : {}),
+    },
+    modified,
+  };
+}
+
+/**
+ * Local checkout of the espanso hub repository, laid out as
+ * packages/<name>/<version>/ with _manifest.yml, package.yml and README.md.
+ * The index is built from the manifests, and package files are read in place.
+ */
+export function createHubCheckoutIndexSource(root: string): IndexSource {
+  return {
+    location: root,
+    loadIndex: async () => {
+      console.log("📁 Building package index from hub checkout:", root);
+      const packagesDir = path.join(root, "packages");
+      const versionDirs = (
+        await Promise.all(
+          (await listDirectories(packagesDir)).map(async (name) =>
+            (await listDirectories(path.join(packagesDir, name))).map(
+              (version) => ({ name, version }),
+            ),
+          ),
+        )
+      ).flat();
+
+      const hubPackages = (
+        await Promise.all(
+          versionDirs.map(({ name, version }) =>
+            readHubPackage(
+              path.join(packagesDir, name, version),
+              name,
+              version,
+            ),
+          ),
+        )
+      ).filter((p) => p !== null);
+      const packages = hubPackages.filter((p) => "entry" in p);
+
+      return {
+        index: {
+          // Seconds since the epoch of the latest manifest change
+          last_update: Math.floor(
+            Math.max(0, ...packages.map(({ modified }) => modified)) / 1000,
+          ),
+          packages: packages.map(({ entry }) => entry),
+        },
+        rejected: hubPackages.flatMap((p) =>
+          "rejected" in p ? [p.rejected] : [],
+        ),
+      };
+    },
+  };
+}
+
+/**
+ * Picks the index source for a PACKAGE_INDEX_URL value: an HTTP(S) URL, or a
+ * file:// URL or path of either an index JSON file or a hub checkout directory.
+ * @throws Error if a local location does not exist
+ */
+export async function resolveIndexSource(
+  location: string,
+): Promise<IndexSource> {
+  if (/^https?:\/\//.test(location)) {
+    return createRemoteIndexSource(location);
+  }
+
+  const localPath = location.startsWith("file://")
+    ? fileURLToPath(location)
+    : path.resolve(location);
+
+  return (await stat(localPath)).isDirectory()
+    ? createHubCheckoutIndexSource(localPath)
+    : createFileIndexSource(localPath);
+}
+
+/**
+ * Gets the local directory holding a package's files, when its archive URL
+ * is a file:// URL of a directory rather than of a zip archive
+ */
+export async function getLocalPackageDirectory(
+  pkg: Package,
+): Promise<string | null> {
+  if (!pkg.archive_url.startsWith("file://")) {
+    return null;
+  }
+
+  const dir = fileURLToPath(pkg.archive_url);
+  try {
+    return (await stat(dir)).isDirectory() ? dir : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads every file of a package directory, like the contents of its archive.
+ * Hidden files and directories are skipped.
+ * @returns Record of file paths (relative, with / separators) to file contents
+ */
+export async function readPackageDirectory(
+  dir: string,
+): Promise<Record<string, string>> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  const files: Record<string, string> = {};
+
+  await Promise.all(
+    entries
+      .filter((entry) => entry.isFile())
+      .map(async (entry) => {
+        const file = path.relative(
+          dir,
+          path.join(entry.parentPath, entry.name),
+        );
+        if (file.split(path.sep).some((part) => part.startsWith("."))) {
+          return;
+        }
+        files[file.split(path.sep).join("/")] = await readFile(
+          path.join(dir, file),
+          "utf-8",
+        );
+      }),
+  );
+
+  console.log(`📂 Read ${Object.keys(files).length} files from ${dir}`);
+  return files;
+}
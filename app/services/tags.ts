@@ -0,0 +1,130 @@
+import { slugify } from "../lib/utils";
+import type { Package } from "../model/packages";
+import { getPackagesIndex, getRenamedTags } from "./packages";
+import { countTags, selectLatestPerName, type TagCount } from "./search";
+
+// Co-occurring tags listed on a tag page
+const MAX_RELATED_TAGS = 12;
+
+/**
+ * A tag of the directory, with the URL segment of its page
+ */
+export type TagSummary = TagCount & {
+  /** URL segment of the tag page, e.g. "emoji" */
+  slug: string;
+};
+
+/**
+ * Everything shown on a tag page
+ */
+export type TagProfile = {
+  slug: string;
+  tag: string;
+  description: string;
+  /** Latest version of each tagged package, sorted by title */
+  packages: Package[];
+  /** Other tags of the tagged packages, most frequent first */
+  related: TagSummary[];
+};
+
+/**
+ * Groups the latest version of every package by tag slug. Tags differing only
+ * in case or punctuation (e.g. "Emoji" and "emoji") share a page.
+ * @returns Map of tag slugs to the tag name and its packages
+ */
+async function groupPackagesByTag(): Promise<
+  Map<string, { tag: string; packages: Package[] }>
+> {
+  const index = await getPackagesIndex();
+  const byTag = new Map<string, { tag: string; packages: Package[] }>();
+
+  selectLatestPerName(index.packages).forEach((pkg) => {
+    const tags = new Map(pkg.tags.map((tag) => [slugify(tag), tag]));
+    tags.forEach((tag, slug) => {
+      if (slug === "") {
+        return;
+      }
+      const entry = byTag.get(slug);
+      if (entry) {
+        entry.packages.push(pkg);
+      } else {
+        byTag.set(slug, { tag: tag.toLowerCase(), packages: [pkg] });
+      }
+    });
+  });
+
+  return byTag;
+}
+
+/**
+ * Gets every tag with the number of packages using it, sorted by name
+ */
+export async function getTagDirectory(): Promise<TagSummary[]> {
+  return Array.from(
+    await groupPackagesByTag(),
+    ([slug, { tag, packages }]) => ({ slug, tag, count: packages.length }),
+  ).sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Gets the slug of every tag, for prerendering
+ */
+export async function getTagSlugs(): Promise<string[]> {
+  return (await getTagDirectory()).map(({ slug }) => slug);
+}
+
+/**
+ * Gets the tag pages that moved when their tag was renamed to its canonical
+ * spelling, e.g. "/tag/emojis" now being "/tag/emoji". Old slugs still in use
+ * by another tag are left alone.
+ * @returns Map of old tag slugs to the slug of the tag page they moved to
+ */
+export async function getTagRedirects(): Promise<Map<string, string>> {
+  const slugs = new Set(await getTagSlugs());
+  const redirects = new Map<string, string>();
+
+  (await getRenamedTags()).forEach((canonical, tag) => {
+    const from = slugify(tag);
+    const to = slugify(canonical);
+    if (from !== "" && from !== to && !slugs.has(from) && slugs.has(to)) {
+      redirects.set(from, to);
+    }
+  });
+
+  return redirects;
+}
+
+/**
+ * Gets the page of a tag
+ * @param slug - Slugified tag name
+ * @returns The tag page, or null if no package has this tag
+ */
+export async function getTagProfile(slug: string): Promise<TagProfile | null> {
+  const entry = (await groupPackagesByTag()).get(slug);
+  if (!entry) {
+    return null;
+  }
+
+  const { tag, packages } = entry;
+  const related = countTags(packages)
+    .map((count) => ({ ...count, slug: slugify(count.tag) }))
+    .filter((count) => count.slug !== slug && count.slug !== "")
+    .slice(0, MAX_RELATED_TAGS);
+
+  const described = `${packages.length} espanso package${packages.length !== 1 ? "s" : ""} tagged "${tag}"`;
+  const description =
+    related.length > 0
+      ? `${described}, often together with ${related
+          .slice(0, 3)
+          .map((r) => `"${r.tag}"`)
+          .join(", ")}.`
+      : `${described}.`;
+
+  return {
+    slug,
+    tag,
+    description,
+    packages: [...packages].sort((a, b) => a.title.localeCompare(b.title)),
+    related,
+  };
+}
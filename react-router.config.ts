@@ -1,27 +1,117 @@
 import type { Config } from "@react-router/dev/config";
 import {
+  ARCHIVE_CONCURRENCY,
   getUniquePackageNames,
   getAllPackageVersionPaths,
+  getAllPackageComparePaths,
+  getPackagesIndex,
+  prefetchPackageArchives,
 } from "./app/services/packages";
+import { getAuthorSlugs } from "./app/services/authors";
+import { getAllFeedPaths } from "./app/services/feeds";
+import { getTagRedirects, getTagSlugs } from "./app/services/tags";
+import { prerenderReport } from "./app/services/prerender";
+import { writeReports } from "./app/services/reports";
+import { BASENAME } from "./app/services/site";
+import { SITEMAPS } from "./app/services/sitemap";
 
-export default {
-  basename: import.meta.env.PROD ? "/hub-frontend-new/" : "/",
-  ssr: false,
-  async prerender() {
-    const packageNames = await getUniquePackageNames();
-    const versionPaths = await getAllPackageVersionPaths();
-
-    const paths = [
-      "/",
-      "/search",
-      ...packageNames.slice(0, 3).map((name) => `/${name}`),
-      ...versionPaths.slice(0, 3),
-    ];
-
-    console.log(
-      `Prerendering ${paths.length} routes (${packageNames.length} packages, ${versionPaths.length} versions)`,
+// Number of package archives allowed to fail to download before the build
+// fails, unlimited when unset. Their pages are still prerendered, without the
+// archive contents, and listed in the prerender report.
+const MAX_FAILED_ARCHIVES = Number(
+  process.env.MAX_FAILED_ARCHIVES ?? Number.POSITIVE_INFINITY,
+);
+
+// The build asks for the prerendered paths more than once
+let prerenderPaths: Promise<string[]> | null = null;
+
+/**
+ * Lists every page to prerender. Pages are rendered one at a time, so archives
+ * are downloaded beforehand with bounded concurrency and retries: pages then
+ * read them from the disk cache. The pages rendered without their archive are
+ * listed in the prerender report, and the build only fails when more than
+ * MAX_FAILED_ARCHIVES archives cannot be downloaded.
+ * @throws Error if too many archives cannot be downloaded
+ */
+async function getPrerenderPaths(): Promise<string[]> {
+  const index = await getPackagesIndex();
+  const packageNames = await getUniquePackageNames();
+  const versionPaths = await getAllPackageVersionPaths();
+  const comparePaths = await getAllPackageComparePaths();
+  const feedPaths = await getAllFeedPaths();
+  const authorSlugs = await getAuthorSlugs();
+  const tagSlugs = await getTagSlugs();
+  const tagRedirects = await getTagRedirects();
+
+  const failed = import.meta.env.PROD
+    ? await prefetchPackageArchives(index.packages, ARCHIVE_CONCURRENCY)
+    : [];
+  prerenderReport.failedArchives = failed.map(
+    ({ name, version, archive_url }) => ({ name, version, archive_url }),
+  );
+  if (failed.length > 0) {
+    const list = failed
+      .map(
+        ({ name, version, archive_url }) =>
+          `  - ${name} v${version} (${archive_url})`,
+      )
+      .join("\n");
+    if (failed.length > MAX_FAILED_ARCHIVES) {
+      throw new Error(
+        `${failed.length} package archives could not be downloaded (MAX_FAILED_ARCHIVES=${MAX_FAILED_ARCHIVES}):\n${list}`,
+      );
+    }
+    console.warn(
+      `⚠️ ${failed.length} package archives could not be downloaded, their pages are rendered without them:\n${list}`,
     );
+  }
+
+  const paths = [
+    "/",
+    "/search",
+    "/search-index.json",
+    "/conflicts",
+    "/status",
+    "/tags",
+    "/robots.txt",
+    "/sitemap.xml",
+    ...SITEMAPS.map((name) => `/sitemaps/${name}.xml`),
+    ...feedPaths,
+    "/api/packages.json",
+    "/api/tags.json",
+    ...packageNames.map((name) => `/api/packages/${name}.json`),
+    ...authorSlugs.map((slug) => `/author/${slug}`),
+    ...tagSlugs.map((slug) => `/tag/${slug}`),
+    // Rendered as redirect pages to the renamed tags
+    ...Array.from(tagRedirects.keys(), (slug) => `/tag/${slug}`),
+    ...packageNames.map((name) => `/${name}`),
+    ...versionPaths,
+    ...comparePaths,
+  ];
+  prerenderReport.paths = paths.length;
 
-    return paths;
+  console.log(
+    `Prerendering ${paths.length} routes (${packageNames.length} packages, ${versionPaths.length} versions)`,
+  );
+
+  return paths;
+}
+
+export default {
+  basename: BASENAME,
+  ssr: false,
+  prerender() {
+    prerenderPaths ??= getPrerenderPaths();
+    return prerenderPaths;
+  },
+  // Only called by builds, once every page is prerendered
+  buildEnd() {
+    const { failedPages } = prerenderReport;
+    if (failedPages.size > 0) {
+      console.warn(
+        `⚠️ ${failedPages.size} pages were prerendered with missing content, see the prerender report`,
+      );
+    }
+    writeReports();
   },
 } satisfies Config;
@@ -5,7 +5,12 @@ import tsconfigPaths from "vite-tsconfig-paths";
 
 export default defineConfig(({ command }) => ({
   base: command === "serve" ? "/" : "/hub-frontend-new/",
-  plugins: [tailwindcss(), reactRouter(), tsconfigPaths()],
+  // Unit tests import modules directly, without the React Router app
+  plugins: [
+    tailwindcss(),
+    !process.env.VITEST && reactRouter(),
+    tsconfigPaths(),
+  ],
   build: {
     emptyOutDir: true,
   },